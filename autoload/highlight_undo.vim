@@ -9,3 +9,8 @@ function! highlight_undo#request(funcname, args) abort
   let args = a:args
   call denops#plugin#wait_async('highlight-undo', { -> denops#request('highlight-undo', funcname, args) })
 endfunction
+
+function! highlight_undo#call(funcname, args) abort
+  call denops#plugin#wait('highlight-undo')
+  return denops#request('highlight-undo', a:funcname, a:args)
+endfunction
@@ -1,23 +1,45 @@
 // Buffer-specific state management
 
+import { applyLineChange, type LineChange } from "../core/utils.ts";
+
 interface BufferData {
   preCode: string;
   postCode: string;
+  changedtick?: number;
   lastModified: number;
   size: number;
 }
 
+// Buffer text before and after a command, captured at b:changedtick `changedtick`
+export interface BufferState {
+  preCode: string;
+  postCode: string;
+  changedtick?: number;
+}
+
+// Line-array model of a buffer, valid while `tick` equals b:changedtick
+export interface BufferSnapshot {
+  lines: ReadonlyArray<string>;
+  tick: number;
+}
+
 // Interface for buffer state management
 export interface IBufferStateManager {
-  set(bufnr: number, preCode: string, postCode: string): void;
-  get(bufnr: number): { preCode: string; postCode: string } | null;
+  set(bufnr: number, preCode: string, postCode: string, changedtick?: number): void;
+  get(bufnr: number): BufferState | null;
   clear(bufnr: number): void;
   clearAll(): void;
-  getStats(): { bufferCount: number; cacheSize: number; maxCacheSize: number };
+  // Snapshots are kept separately from the pre/post states and survive clear()
+  setSnapshot(bufnr: number, tick: number, lines: ReadonlyArray<string>): void;
+  applyLineEvent(bufnr: number, tick: number, change?: LineChange): boolean;
+  getSnapshot(bufnr: number): BufferSnapshot | null;
+  clearSnapshot(bufnr: number): void;
+  getStats(): { bufferCount: number; cacheSize: number; maxCacheSize: number; snapshotCount: number };
 }
 
 export function createBufferStateManager(maxCacheSize = 10 * 1024 * 1024): IBufferStateManager {
   const buffers = new Map<number, BufferData>();
+  const snapshots = new Map<number, BufferSnapshot>();
   let currentCacheSize = 0;
 
   function evictOldEntries(): void {
@@ -31,7 +53,7 @@ export function createBufferStateManager(maxCacheSize = 10 * 1024 * 1024): IBuff
     }
   }
 
-  function set(bufnr: number, preCode: string, postCode: string): void {
+  function set(bufnr: number, preCode: string, postCode: string, changedtick?: number): void {
     const oldData = buffers.get(bufnr);
     if (oldData) {
       currentCacheSize -= oldData.size;
@@ -41,6 +63,7 @@ export function createBufferStateManager(maxCacheSize = 10 * 1024 * 1024): IBuff
     const data: BufferData = {
       preCode,
       postCode,
+      changedtick,
       lastModified: Date.now(),
       size,
     };
@@ -54,7 +77,7 @@ export function createBufferStateManager(maxCacheSize = 10 * 1024 * 1024): IBuff
     }
   }
 
-  function get(bufnr: number): { preCode: string; postCode: string } | null {
+  function get(bufnr: number): BufferState | null {
     const data = buffers.get(bufnr);
     if (!data) {
       return null;
@@ -62,7 +85,11 @@ export function createBufferStateManager(maxCacheSize = 10 * 1024 * 1024): IBuff
 
     // Update last modified time on access
     data.lastModified = Date.now();
-    return { preCode: data.preCode, postCode: data.postCode };
+    return {
+      preCode: data.preCode,
+      postCode: data.postCode,
+      ...(data.changedtick !== undefined ? { changedtick: data.changedtick } : {}),
+    };
   }
 
   function clear(bufnr: number): void {
@@ -75,14 +102,52 @@ export function createBufferStateManager(maxCacheSize = 10 * 1024 * 1024): IBuff
 
   function clearAll(): void {
     buffers.clear();
+    snapshots.clear();
     currentCacheSize = 0;
   }
 
+  function setSnapshot(bufnr: number, tick: number, lines: ReadonlyArray<string>): void {
+    snapshots.set(bufnr, { lines, tick });
+  }
+
+  /**
+   * Replay a line event from nvim_buf_attach on the snapshot.
+   * Events without a change only advance the tick (on_changedtick).
+   * Returns false when there is no snapshot or the event is older than it.
+   */
+  function applyLineEvent(bufnr: number, tick: number, change?: LineChange): boolean {
+    const snapshot = snapshots.get(bufnr);
+    if (!snapshot || tick <= snapshot.tick) {
+      return false;
+    }
+
+    if (change && change.lastLine > snapshot.lines.length) {
+      // The event does not fit the model, drop it and wait for a fresh snapshot
+      snapshots.delete(bufnr);
+      return false;
+    }
+
+    snapshots.set(bufnr, {
+      lines: change ? applyLineChange(snapshot.lines, change) : snapshot.lines,
+      tick,
+    });
+    return true;
+  }
+
+  function getSnapshot(bufnr: number): BufferSnapshot | null {
+    return snapshots.get(bufnr) ?? null;
+  }
+
+  function clearSnapshot(bufnr: number): void {
+    snapshots.delete(bufnr);
+  }
+
   function getStats() {
     return {
       bufferCount: buffers.size,
       cacheSize: currentCacheSize,
       maxCacheSize,
+      snapshotCount: snapshots.size,
     };
   }
 
@@ -91,6 +156,10 @@ export function createBufferStateManager(maxCacheSize = 10 * 1024 * 1024): IBuff
     get,
     clear,
     clearAll,
+    setSnapshot,
+    applyLineEvent,
+    getSnapshot,
+    clearSnapshot,
     getStats,
   };
 }
@@ -15,6 +15,14 @@ describe("BufferStateManager", () => {
     assertEquals(result, { preCode, postCode });
   });
 
+  it("should keep the changedtick the states were captured at", () => {
+    const manager = createBufferStateManager();
+
+    manager.set(1, "pre", "post", 42);
+
+    assertEquals(manager.get(1), { preCode: "pre", postCode: "post", changedtick: 42 });
+  });
+
   it("should return null for non-existent buffer", () => {
     const manager = createBufferStateManager();
     const result = manager.get(999);
@@ -78,4 +86,56 @@ describe("BufferStateManager", () => {
     manager.clearAll();
     assertEquals(manager.getStats().bufferCount, 0);
   });
+
+  describe("snapshots", () => {
+    it("should replay line events on the snapshot", () => {
+      const manager = createBufferStateManager();
+      manager.setSnapshot(1, 10, ["a", "b", "c"]);
+
+      assertEquals(manager.applyLineEvent(1, 11, { firstLine: 1, lastLine: 2, lines: ["B", "B2"] }), true);
+      assertEquals(manager.applyLineEvent(1, 12, { firstLine: 0, lastLine: 1, lines: [] }), true);
+
+      assertEquals(manager.getSnapshot(1), { lines: ["B", "B2", "c"], tick: 12 });
+    });
+
+    it("should advance the tick without a change", () => {
+      const manager = createBufferStateManager();
+      manager.setSnapshot(1, 10, ["a"]);
+
+      assertEquals(manager.applyLineEvent(1, 15), true);
+      assertEquals(manager.getSnapshot(1), { lines: ["a"], tick: 15 });
+    });
+
+    it("should ignore stale events and buffers without a snapshot", () => {
+      const manager = createBufferStateManager();
+      manager.setSnapshot(1, 10, ["a"]);
+
+      assertEquals(manager.applyLineEvent(1, 10, { firstLine: 0, lastLine: 1, lines: ["x"] }), false);
+      assertEquals(manager.applyLineEvent(2, 11, { firstLine: 0, lastLine: 0, lines: ["x"] }), false);
+      assertEquals(manager.getSnapshot(1), { lines: ["a"], tick: 10 });
+      assertEquals(manager.getSnapshot(2), null);
+    });
+
+    it("should drop the snapshot on events outside of it", () => {
+      const manager = createBufferStateManager();
+      manager.setSnapshot(1, 10, ["a"]);
+
+      assertEquals(manager.applyLineEvent(1, 11, { firstLine: 0, lastLine: 3, lines: [] }), false);
+      assertEquals(manager.getSnapshot(1), null);
+    });
+
+    it("should keep snapshots when the pre/post states are cleared", () => {
+      const manager = createBufferStateManager();
+      manager.set(1, "hello", "world");
+      manager.setSnapshot(1, 3, ["hello"]);
+
+      manager.clear(1);
+      assertEquals(manager.getSnapshot(1)?.tick, 3);
+      assertEquals(manager.getStats().snapshotCount, 1);
+
+      manager.clearSnapshot(1);
+      assertEquals(manager.getSnapshot(1), null);
+      assertEquals(manager.getStats().snapshotCount, 0);
+    });
+  });
 });
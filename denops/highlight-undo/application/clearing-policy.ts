@@ -0,0 +1,123 @@
+// When highlights go away: after a timer, or on an editor event
+
+import type { Denops } from "../deps.ts";
+import { fn } from "../deps.ts";
+import { highlightGroupsOf } from "../config.ts";
+import type { IHighlightBatcher } from "../infrastructure/highlight-batcher.ts";
+import type { IHighlightAnimator } from "../infrastructure/highlight-animator.ts";
+import type { IConfigResolver } from "./config-resolver.ts";
+
+export type ClearPolicy = "timer" | "cursor_moved" | "insert_enter" | "next_change" | "manual";
+
+export interface ClearingPolicyDeps {
+  highlightBatcher: IHighlightBatcher;
+  highlightAnimator: IHighlightAnimator;
+  config: IConfigResolver;
+  nameSpace: number;
+}
+
+export interface IClearingPolicy {
+  /**
+   * Called once highlights are shown in `bufnr`, following that buffer's config.
+   * "timer" waits for the duration (fading out when animated) and clears before returning;
+   * the other policies register the autocmd that calls the `clearHighlights` dispatcher
+   * method and return at once. `onClear` runs when the highlights are cleared.
+   * An aborted `signal` cuts the "timer" wait short.
+   */
+  afterHighlight(denops: Denops, bufnr: number, onClear?: () => void, signal?: AbortSignal): Promise<void>;
+  /**
+   * Clear the highlights of `bufnr` now and drop its pending autocmds
+   */
+  clear(denops: Denops, bufnr: number): Promise<void>;
+}
+
+function augroupOf(bufnr: number): string {
+  return `highlight_undo_clear_${bufnr}`;
+}
+
+/**
+ * Autocmd events and guard condition for event-based policies of `bufnr`.
+ * The guards skip the events caused by the undo command itself.
+ */
+async function triggerOf(
+  denops: Denops,
+  policy: Exclude<ClearPolicy, "timer" | "manual">,
+  bufnr: number,
+): Promise<{ events: string; condition?: string }> {
+  switch (policy) {
+    case "cursor_moved": {
+      // The cursor position only belongs to `bufnr` while it is the current buffer
+      if ((await fn.bufnr(denops, "%")) !== bufnr) {
+        return { events: "CursorMoved,CursorMovedI" };
+      }
+      const [, lnum, col] = (await fn.getcurpos(denops)) as number[];
+      return { events: "CursorMoved,CursorMovedI", condition: `getcurpos()[1:2] != [${lnum}, ${col}]` };
+    }
+    case "insert_enter":
+      return { events: "InsertEnter" };
+    case "next_change": {
+      const tick = (await fn.getbufvar(denops, bufnr, "changedtick")) as number;
+      return { events: "TextChanged,TextChangedI", condition: `b:changedtick != ${tick}` };
+    }
+  }
+}
+
+export function createClearingPolicy(deps: ClearingPolicyDeps): IClearingPolicy {
+  const onClearCallbacks = new Map<number, () => void>();
+
+  async function clear(denops: Denops, bufnr: number): Promise<void> {
+    await denops.cmd(`silent! autocmd! ${augroupOf(bufnr)}`);
+    await deps.highlightBatcher.clearHighlights(denops, deps.nameSpace, bufnr);
+
+    const onClear = onClearCallbacks.get(bufnr);
+    onClearCallbacks.delete(bufnr);
+    onClear?.();
+  }
+
+  async function afterHighlight(
+    denops: Denops,
+    bufnr: number,
+    onClear?: () => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (onClear) {
+      onClearCallbacks.set(bufnr, onClear);
+    } else {
+      onClearCallbacks.delete(bufnr);
+    }
+
+    const config = await deps.config.resolve(denops, bufnr);
+    const policy = config.clear ?? "timer";
+    if (policy === "timer") {
+      await deps.highlightAnimator.fadeOut(
+        denops,
+        deps.nameSpace,
+        bufnr,
+        Object.values(highlightGroupsOf(config)),
+        config.duration,
+        config.animation,
+        signal,
+      );
+      await clear(denops, bufnr);
+      return;
+    }
+
+    const augroup = augroupOf(bufnr);
+    await denops.cmd(`augroup ${augroup} | augroup END`);
+    await denops.cmd(`autocmd! ${augroup}`);
+    if (policy === "manual") {
+      return;
+    }
+
+    const { events, condition } = await triggerOf(denops, policy, bufnr);
+    const notify = `call denops#notify('${denops.name}', 'clearHighlights', [${bufnr}])`;
+    await denops.cmd(
+      `autocmd ${augroup} ${events} <buffer=${bufnr}> ${condition ? `if ${condition} | ${notify} | endif` : notify}`,
+    );
+  }
+
+  return {
+    afterHighlight,
+    clear,
+  };
+}
@@ -0,0 +1,123 @@
+import { assertEquals } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import type { Denops } from "../deps.ts";
+import { type ClearPolicy, createClearingPolicy } from "./clearing-policy.ts";
+import type { IHighlightBatcher } from "../infrastructure/highlight-batcher.ts";
+import type { IHighlightAnimator } from "../infrastructure/highlight-animator.ts";
+import type { Config } from "../config.ts";
+import type { IConfigResolver } from "./config-resolver.ts";
+
+// `current` is the current buffer, at b:changedtick 3; every other buffer is at 7
+const createFakeDenops = (commands: string[], current = 5): Denops =>
+  ({
+    name: "highlight-undo",
+    cmd: (command: string) => {
+      commands.push(command);
+      return Promise.resolve();
+    },
+    call: (fn: string, ...args: unknown[]) => {
+      switch (fn) {
+        case "bufnr":
+          return Promise.resolve(current);
+        case "getcurpos":
+          return Promise.resolve([0, 10, 3, 0, 3]);
+        case "getbufvar":
+          return Promise.resolve(args[1] === "changedtick" ? (args[0] === current ? 3 : 7) : null);
+      }
+      return Promise.resolve(null);
+    },
+    eval: (expr: string) => Promise.resolve(expr === "b:changedtick" ? 3 : null),
+  }) as unknown as Denops;
+
+const createPolicy = (clear: ClearPolicy, log: string[]) => {
+  const config: Config = {
+    duration: 200,
+    enabled: { added: true, removed: true },
+    highlight: { added: "DiffAdd", removed: "DiffDelete" },
+    threshold: { line: 50, char: 1500 },
+    mappings: { undo: "u", redo: "<C-r>" },
+    clear,
+  };
+  const highlightBatcher = {
+    clearHighlights: (_denops: Denops, _nameSpace: number, bufnr?: number) => {
+      log.push(`clear ${bufnr}`);
+      return Promise.resolve();
+    },
+  } as unknown as IHighlightBatcher;
+  const highlightAnimator: IHighlightAnimator = {
+    fadeOut: (_denops, _nameSpace, bufnr, _groups, duration) => {
+      log.push(`wait ${bufnr} ${duration}`);
+      return Promise.resolve();
+    },
+  };
+  const configResolver: IConfigResolver = {
+    resolve: () => Promise.resolve(config),
+    invalidate: () => {},
+    update: () => {},
+  };
+  return createClearingPolicy({ highlightBatcher, highlightAnimator, config: configResolver, nameSpace: 1 });
+};
+
+describe("ClearingPolicy", () => {
+  it("should wait and clear with the timer policy", async () => {
+    const log: string[] = [];
+    const commands: string[] = [];
+    const policy = createPolicy("timer", log);
+
+    await policy.afterHighlight(createFakeDenops(commands), 5, () => log.push("cleared"));
+
+    assertEquals(log, ["wait 5 200", "clear 5", "cleared"]);
+  });
+
+  it("should register a guarded autocmd for cursor_moved and keep the highlights", async () => {
+    const log: string[] = [];
+    const commands: string[] = [];
+    const policy = createPolicy("cursor_moved", log);
+
+    await policy.afterHighlight(createFakeDenops(commands), 5);
+
+    assertEquals(log, []);
+    assertEquals(
+      commands.at(-1),
+      "autocmd highlight_undo_clear_5 CursorMoved,CursorMovedI <buffer=5> if getcurpos()[1:2] != [10, 3] | " +
+        "call denops#notify('highlight-undo', 'clearHighlights', [5]) | endif",
+    );
+  });
+
+  it("should not compare the cursor of another buffer for cursor_moved", async () => {
+    const commands: string[] = [];
+    const policy = createPolicy("cursor_moved", []);
+
+    await policy.afterHighlight(createFakeDenops(commands, 1), 5);
+
+    assertEquals(
+      commands.at(-1),
+      "autocmd highlight_undo_clear_5 CursorMoved,CursorMovedI <buffer=5> " +
+        "call denops#notify('highlight-undo', 'clearHighlights', [5])",
+    );
+  });
+
+  it("should skip the change made by the command itself for next_change", async () => {
+    const commands: string[] = [];
+    const policy = createPolicy("next_change", []);
+
+    await policy.afterHighlight(createFakeDenops(commands), 2);
+
+    assertEquals(commands.at(-1)?.includes("TextChanged,TextChangedI <buffer=2> if b:changedtick != 7 |"), true);
+  });
+
+  it("should only clear on request with the manual policy", async () => {
+    const log: string[] = [];
+    const commands: string[] = [];
+    const denops = createFakeDenops(commands);
+    const policy = createPolicy("manual", log);
+
+    await policy.afterHighlight(denops, 3, () => log.push("cleared"));
+    assertEquals(commands.some((command) => command.startsWith("autocmd highlight_undo_clear_3 ")), false);
+    assertEquals(log, []);
+
+    await policy.clear(denops, 3);
+    assertEquals(commands.at(-1), "silent! autocmd! highlight_undo_clear_3");
+    assertEquals(log, ["clear 3", "cleared"]);
+  });
+});
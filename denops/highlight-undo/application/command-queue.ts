@@ -1,31 +1,90 @@
 // Command queuing system for handling concurrent operations
 
+// A queued command, `signal` is aborted when a later command for the same buffer asks it to finish early
+export type QueuedTask = (signal: AbortSignal) => Promise<void>;
+
+/**
+ * What a new command does to the earlier ones of its buffer:
+ * "none" lets them run in full, "cancel" aborts their signals so they flush at once,
+ * "merge" also folds it into a pending command with the same key.
+ */
+export type CoalescePolicy = "none" | "cancel" | "merge";
+
+// A command that can absorb the steps of later commands, e.g. `undo` becoming `3undo`
+export interface Coalescible {
+  key: string;
+  count: number;
+  withCount(count: number): QueuedTask;
+}
+
+/**
+ * Which commands lose their highlight once more than `maxDepth` highlighted commands are pending.
+ * They still run, in order and without waiting, so no keypress is lost.
+ * Only with coalesce "none": otherwise a new command cancels all earlier ones.
+ */
+export type OverflowPolicy = "drop-oldest" | "drop-newest" | "run-without-highlight";
+
+export interface CommandQueueOptions {
+  coalesce?: CoalescePolicy;
+  // Pending commands that keep their highlight
+  maxDepth?: number;
+  // Commands waiting longer than this (ms) run without highlight
+  staleTimeout?: number;
+  overflow?: OverflowPolicy;
+}
+
+export interface CommandQueueStats {
+  totalQueued: number;
+  bufferCount: number;
+  processing: number[];
+  // Commands that ran without highlight, or with it cut short, because of the queue policy
+  dropped: { overflow: number; stale: number; cancelled: number };
+}
+
+const DEFAULT_STALE_TIMEOUT = 5000;
+
 export interface QueuedCommand {
   id: string;
-  execute: () => Promise<void>;
+  execute: QueuedTask;
   bufnr: number;
   timestamp: number;
+  controller: AbortController;
+  coalescible?: Coalescible;
 }
 
 export interface ICommandQueue {
   enqueue(
     bufnr: number,
-    command: () => Promise<void>,
+    command: QueuedTask,
+    coalescible?: Coalescible,
   ): Promise<void>;
   clearBuffer(bufnr: number): void;
   clearAll(): void;
-  getStats(): {
-    totalQueued: number;
-    bufferCount: number;
-    processing: number[];
-  };
+  getStats(): CommandQueueStats;
+  // Replace the options, pending commands keep their place and stats are kept
+  configure(options: CommandQueueOptions): void;
 }
 
-export function createCommandQueue(): ICommandQueue {
+export function createCommandQueue(options: CommandQueueOptions = {}): ICommandQueue {
+  let coalesce: CoalescePolicy;
+  let maxDepth: number;
+  let staleTimeout: number;
+  let overflow: OverflowPolicy;
+  const dropped = { overflow: 0, stale: 0, cancelled: 0 };
   const queues = new Map<number, QueuedCommand[]>();
   const processing = new Map<number, boolean>();
+  const running = new Map<number, QueuedCommand>();
   let commandId = 0;
 
+  function configure(next: CommandQueueOptions): void {
+    coalesce = next.coalesce ?? "none";
+    maxDepth = next.maxDepth ?? Infinity;
+    staleTimeout = next.staleTimeout ?? DEFAULT_STALE_TIMEOUT;
+    overflow = next.overflow ?? "drop-oldest";
+  }
+
+  configure(options);
+
   async function processQueue(bufnr: number): Promise<void> {
     if (processing.get(bufnr)) {
       return;
@@ -39,17 +98,20 @@ export function createCommandQueue(): ICommandQueue {
       while (queue.length > 0) {
         const command = queue.shift()!;
 
-        // Skip stale commands (older than 5 seconds)
-        if (Date.now() - command.timestamp > 5000) {
-          console.warn(`[highlight-undo] Skipping stale command: ${command.id}`);
-          continue;
+        // Stale commands still run, without highlight, so the buffer catches up; counted in getStats only
+        if (Date.now() - command.timestamp > staleTimeout && !command.controller.signal.aborted) {
+          command.controller.abort();
+          dropped.stale++;
         }
 
+        running.set(bufnr, command);
         try {
-          await command.execute();
+          await command.execute(command.controller.signal);
         } catch (error) {
           console.error(`[highlight-undo] Command ${command.id} failed:`, error);
           // Continue processing other commands
+        } finally {
+          running.delete(bufnr);
         }
       }
     } finally {
@@ -63,22 +125,76 @@ export function createCommandQueue(): ICommandQueue {
     }
   }
 
+  // Fold `coalescible` into the last pending command of `queue` when both have the same key
+  function mergeIntoLast(queue: QueuedCommand[], coalescible: Coalescible): boolean {
+    const last = queue.at(-1);
+    if (!last?.coalescible || last.coalescible.key !== coalescible.key) {
+      return false;
+    }
+
+    const count = last.coalescible.count + coalescible.count;
+    last.coalescible = { ...coalescible, count };
+    last.execute = coalescible.withCount(count);
+    return true;
+  }
+
+  // Take the highlight from commands beyond `maxDepth`, according to the overflow policy
+  function enforceDepth(queue: QueuedCommand[]): void {
+    const highlighted = queue.filter((command) => !command.controller.signal.aborted);
+    if (highlighted.length <= maxDepth) {
+      return;
+    }
+
+    const victims = overflow === "drop-oldest"
+      ? highlighted.slice(0, highlighted.length - maxDepth)
+      : overflow === "drop-newest"
+      ? highlighted.slice(maxDepth)
+      : highlighted;
+    for (const command of victims) {
+      command.controller.abort();
+    }
+    dropped.overflow += victims.length;
+  }
+
   async function enqueue(
     bufnr: number,
-    command: () => Promise<void>,
+    command: QueuedTask,
+    coalescible?: Coalescible,
   ): Promise<void> {
+    // Get or create queue for buffer
+    const queue = queues.get(bufnr) || [];
+
+    const merged = coalesce === "merge" && coalescible !== undefined && mergeIntoLast(queue, coalescible);
+
+    if (coalesce !== "none") {
+      // Earlier commands stop waiting so the buffer catches up with the keypresses.
+      // A merged command stays the newest one and is shown in full
+      const earlier = [running.get(bufnr), ...(merged ? queue.slice(0, -1) : queue)];
+      for (const command of earlier) {
+        if (command && !command.controller.signal.aborted) {
+          command.controller.abort();
+          dropped.cancelled++;
+        }
+      }
+    }
+
+    if (merged) {
+      return;
+    }
+
     const id = `cmd-${++commandId}`;
     const queuedCommand: QueuedCommand = {
       id,
       execute: command,
       bufnr,
       timestamp: Date.now(),
+      controller: new AbortController(),
+      coalescible,
     };
 
-    // Get or create queue for buffer
-    const queue = queues.get(bufnr) || [];
     queue.push(queuedCommand);
     queues.set(bufnr, queue);
+    enforceDepth(queue);
 
     // Process queue if not already processing
     if (!processing.get(bufnr)) {
@@ -89,18 +205,20 @@ export function createCommandQueue(): ICommandQueue {
   function clearBuffer(bufnr: number): void {
     queues.delete(bufnr);
     processing.delete(bufnr);
+    running.get(bufnr)?.controller.abort();
+    running.delete(bufnr);
   }
 
   function clearAll(): void {
     queues.clear();
     processing.clear();
+    for (const command of running.values()) {
+      command.controller.abort();
+    }
+    running.clear();
   }
 
-  function getStats(): {
-    totalQueued: number;
-    bufferCount: number;
-    processing: number[];
-  } {
+  function getStats(): CommandQueueStats {
     let totalQueued = 0;
     for (const queue of queues.values()) {
       totalQueued += queue.length;
@@ -117,6 +235,7 @@ export function createCommandQueue(): ICommandQueue {
       totalQueued,
       bufferCount: queues.size,
       processing: processingBuffers,
+      dropped: { ...dropped },
     };
   }
 
@@ -125,6 +244,7 @@ export function createCommandQueue(): ICommandQueue {
     clearBuffer,
     clearAll,
     getStats,
+    configure,
   };
 }
 
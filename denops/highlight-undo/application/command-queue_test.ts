@@ -1,6 +1,7 @@
 // deno-lint-ignore-file require-await
 import { assertEquals } from "../deps.ts";
 import { describe, it } from "../deps.ts";
+import { defaultConfig } from "../config-schema.ts";
 import { createCommandQueue, createLockManager } from "./command-queue.ts";
 const delay = (ms: number): Promise<void> => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
@@ -174,6 +175,148 @@ describe("CommandQueue", () => {
     assertEquals(finalStats.totalQueued, 0);
     assertEquals(finalStats.processing.length, 0);
   });
+
+  describe("coalescing", () => {
+    // Waits like a highlighted command, for `ms` or until a later command aborts it
+    const highlighted = (name: string, log: string[], ms = 100) => async (signal: AbortSignal) => {
+      const start = Date.now();
+      await new Promise<void>((resolve) => {
+        if (signal.aborted) {
+          return resolve();
+        }
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+      log.push(`${name} ${Date.now() - start < ms ? "flushed" : "shown"}`);
+    };
+
+    const undoSteps = (log: string[], count: number) => ({
+      key: "undo",
+      count,
+      withCount: (merged: number) => highlighted(`undo x${merged}`, log, 10),
+    });
+
+    it("should let earlier commands run in full without coalescing", async () => {
+      const queue = createCommandQueue();
+      const log: string[] = [];
+
+      const first = queue.enqueue(1, highlighted("first", log, 20));
+      await queue.enqueue(1, highlighted("second", log, 10));
+      await first;
+
+      assertEquals(log, ["first shown", "second shown"]);
+    });
+
+    it("should cancel the wait of the running command when a new one arrives", async () => {
+      const queue = createCommandQueue({ coalesce: "cancel" });
+      const log: string[] = [];
+
+      const first = queue.enqueue(1, highlighted("first", log));
+      await delay(5);
+      await queue.enqueue(1, highlighted("second", log, 10));
+      await first;
+
+      assertEquals(log, ["first flushed", "second shown"]);
+    });
+
+    it("should merge pending steps into one command", async () => {
+      const queue = createCommandQueue({ coalesce: "merge" });
+      const log: string[] = [];
+
+      const first = queue.enqueue(1, highlighted("undo x1", log), undoSteps(log, 1));
+      await delay(5);
+      queue.enqueue(1, highlighted("undo x1", log), undoSteps(log, 1));
+      queue.enqueue(1, highlighted("undo x1", log), undoSteps(log, 1));
+      queue.enqueue(1, highlighted("redo", log, 10));
+      await first;
+      await delay(50);
+
+      assertEquals(log, ["undo x1 flushed", "undo x2 flushed", "redo shown"]);
+    });
+  });
+
+  describe("queue policy", () => {
+    // Records whether the command ran with its highlight
+    const command = (name: string, log: string[], ms = 10) => async (signal: AbortSignal) => {
+      if (!signal.aborted) {
+        await delay(ms);
+      }
+      log.push(`${name}${signal.aborted ? " (no highlight)" : ""}`);
+    };
+
+    const fillQueue = async (queue: ReturnType<typeof createCommandQueue>, log: string[]) => {
+      const running = queue.enqueue(1, command("running", log, 20));
+      queue.enqueue(1, command("a", log));
+      queue.enqueue(1, command("b", log));
+      queue.enqueue(1, command("c", log));
+      await running;
+    };
+
+    it("should drop the highlight of the oldest pending commands beyond maxDepth", async () => {
+      const queue = createCommandQueue({ maxDepth: 2, overflow: "drop-oldest" });
+      const log: string[] = [];
+
+      await fillQueue(queue, log);
+
+      assertEquals(log, ["running", "a (no highlight)", "b", "c"]);
+      assertEquals(queue.getStats().dropped, { overflow: 1, stale: 0, cancelled: 0 });
+    });
+
+    it("should drop the highlight of the newest command beyond maxDepth", async () => {
+      const queue = createCommandQueue({ maxDepth: 2, overflow: "drop-newest" });
+      const log: string[] = [];
+
+      await fillQueue(queue, log);
+
+      assertEquals(log, ["running", "a", "b", "c (no highlight)"]);
+    });
+
+    it("should run the whole backlog without highlight", async () => {
+      const queue = createCommandQueue({ maxDepth: 2, overflow: "run-without-highlight" });
+      const log: string[] = [];
+
+      await fillQueue(queue, log);
+
+      assertEquals(log, ["running", "a (no highlight)", "b (no highlight)", "c (no highlight)"]);
+      assertEquals(queue.getStats().dropped.overflow, 3);
+    });
+
+    it("should still run stale commands, without highlight", async () => {
+      const queue = createCommandQueue({ staleTimeout: 5 });
+      const log: string[] = [];
+
+      const running = queue.enqueue(1, command("running", log, 20));
+      queue.enqueue(1, command("stale", log));
+      await running;
+
+      assertEquals(log, ["running", "stale (no highlight)"]);
+      assertEquals(queue.getStats().dropped, { overflow: 0, stale: 1, cancelled: 0 });
+    });
+
+    it("should cancel every earlier command with the default options and count them", async () => {
+      const queue = createCommandQueue({ ...defaultConfig.queue });
+      const log: string[] = [];
+
+      await fillQueue(queue, log);
+
+      // maxDepth has nothing left to limit: only the newest command keeps its highlight
+      assertEquals(log, ["running (no highlight)", "a (no highlight)", "b (no highlight)", "c"]);
+      assertEquals(queue.getStats().dropped, { overflow: 0, stale: 0, cancelled: 3 });
+    });
+
+    it("should apply new options to the commands queued after configure", async () => {
+      const queue = createCommandQueue({ maxDepth: 10 });
+      const log: string[] = [];
+
+      queue.configure({ maxDepth: 2, overflow: "drop-newest" });
+      await fillQueue(queue, log);
+
+      assertEquals(log, ["running", "a", "b", "c (no highlight)"]);
+    });
+  });
 });
 
 describe("LockManager", () => {
@@ -0,0 +1,121 @@
+// Config of a buffer: the global config, then the 'filetype' overrides, then b:highlight_undo_config
+
+import type { Denops } from "../deps.ts";
+import { fn } from "../deps.ts";
+import { type Config, ConfigValidationError, mergeConfig } from "../config.ts";
+import { type ConfigDiagnostic, diagnosticChunks } from "../config-diagnostics.ts";
+
+export interface IConfigResolver {
+  /**
+   * Config for `bufnr`, merged at call time and cached until the buffer's 'filetype'
+   * or b:highlight_undo_config changes. An invalid buffer override is reported and ignored.
+   */
+  resolve(denops: Denops, bufnr: number): Promise<Config>;
+  /**
+   * Drop the cached config of `bufnr`, or of every buffer
+   */
+  invalidate(bufnr?: number): void;
+  /**
+   * Swap the global config. Executions that already resolved theirs keep it.
+   */
+  update(config: Config): void;
+}
+
+interface CachedConfig {
+  key: string;
+  config: Config;
+}
+
+// getbufvar() gives "" for a missing variable, and Lua turns an empty table into an empty list
+function isUnset(value: unknown): boolean {
+  return value == null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Config with the overrides for `filetype` and the buffer-local `override` applied, later ones winning.
+ * Unknown keys of `override` are dropped and reported to `warnings` when given.
+ */
+export function resolveConfig(
+  config: Config,
+  filetype: string,
+  override?: unknown,
+  warnings?: ConfigDiagnostic[],
+): Config {
+  const filetypeConfig = filetype !== "" ? config.filetypes?.[filetype] : undefined;
+  const base = filetypeConfig ? mergeConfig(filetypeConfig, config) : config;
+  return isUnset(override) ? base : mergeConfig(override, base, warnings);
+}
+
+async function echoDiagnostics(
+  denops: Denops,
+  heading: string,
+  diagnostics: ReadonlyArray<ConfigDiagnostic>,
+): Promise<void> {
+  if (diagnostics.length > 0) {
+    await denops.call(
+      "nvim_echo",
+      [
+        [`[highlight-undo] ${heading}\n`, "WarningMsg"],
+        ...diagnosticChunks(diagnostics),
+      ],
+      true,
+      {},
+    );
+  }
+}
+
+export function createConfigResolver(initialConfig: Config): IConfigResolver {
+  let config = initialConfig;
+  const cache = new Map<number, CachedConfig>();
+
+  async function resolve(denops: Denops, bufnr: number): Promise<Config> {
+    const filetype = (await fn.getbufvar(denops, bufnr, "&filetype")) as string;
+    const override = await fn.getbufvar(denops, bufnr, "highlight_undo_config");
+    const key = `${filetype}\n${isUnset(override) ? "" : JSON.stringify(override)}`;
+
+    const cached = cache.get(bufnr);
+    if (cached?.key === key) {
+      return cached.config;
+    }
+
+    // Cached like a valid config, so the diagnostics show once per change of the variable
+    let resolved: Config;
+    const warnings: ConfigDiagnostic[] = [];
+    try {
+      resolved = resolveConfig(config, filetype, override, warnings);
+      await echoDiagnostics(denops, `b:highlight_undo_config of buffer ${bufnr}`, warnings);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        await echoDiagnostics(denops, `Ignoring b:highlight_undo_config of buffer ${bufnr}`, error.diagnostics);
+      } else {
+        console.error(
+          `[highlight-undo] Ignoring b:highlight_undo_config of buffer ${bufnr}:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+      resolved = resolveConfig(config, filetype);
+    }
+
+    cache.set(bufnr, { key, config: resolved });
+    return resolved;
+  }
+
+  function invalidate(bufnr?: number): void {
+    if (bufnr === undefined) {
+      cache.clear();
+    } else {
+      cache.delete(bufnr);
+    }
+  }
+
+  function update(next: Config): void {
+    config = next;
+    cache.clear();
+  }
+
+  return {
+    resolve,
+    invalidate,
+    update,
+  };
+}
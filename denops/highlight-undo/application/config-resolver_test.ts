@@ -0,0 +1,123 @@
+import { assertEquals } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import type { Denops } from "../deps.ts";
+import { createConfigResolver, resolveConfig } from "./config-resolver.ts";
+import { type Config, validateConfig } from "../config.ts";
+import { defaultConfig } from "../config-schema.ts";
+
+const config: Config = validateConfig({
+  ...defaultConfig,
+  filetypes: {
+    markdown: { heuristics: { strategies: { small: "word", medium: "word" } }, duration: 400 },
+    json: { heuristics: { enabled: false } },
+  },
+});
+
+// Buffer variables read through getbufvar()
+const createFakeDenops = (variables: Record<string, unknown>): Denops =>
+  ({
+    call: (fn: string, _bufnr: number, name: string) =>
+      Promise.resolve(fn === "getbufvar" ? variables[name] ?? "" : null),
+  }) as unknown as Denops;
+
+describe("resolveConfig", () => {
+  it("should apply the overrides of the filetype", () => {
+    const resolved = resolveConfig(config, "markdown");
+
+    assertEquals(resolved.duration, 400);
+    assertEquals(resolved.heuristics?.strategies?.medium, "word");
+    assertEquals(resolved.heuristics?.strategies?.large, "block");
+    assertEquals(resolveConfig(config, "json").heuristics?.enabled, false);
+  });
+
+  it("should keep the global config for other filetypes", () => {
+    assertEquals(resolveConfig(config, "lua"), config);
+    assertEquals(resolveConfig(config, ""), config);
+  });
+
+  it("should apply the buffer override over the filetype", () => {
+    const resolved = resolveConfig(config, "markdown", { duration: 50, enabled: { removed: false } });
+
+    assertEquals(resolved.duration, 50);
+    assertEquals(resolved.enabled, { added: true, removed: false });
+    assertEquals(resolved.heuristics?.strategies?.medium, "word");
+  });
+});
+
+describe("ConfigResolver", () => {
+  it("should reuse the config until the filetype changes", async () => {
+    const variables: Record<string, unknown> = { "&filetype": "markdown" };
+    const denops = createFakeDenops(variables);
+    const resolver = createConfigResolver(config);
+
+    const first = await resolver.resolve(denops, 1);
+    assertEquals(await resolver.resolve(denops, 1), first);
+    assertEquals(first.duration, 400);
+
+    variables["&filetype"] = "json";
+    const second = await resolver.resolve(denops, 1);
+    assertEquals(second.duration, 200);
+    assertEquals(second.heuristics?.enabled, false);
+  });
+
+  it("should follow changes of b:highlight_undo_config", async () => {
+    const variables: Record<string, unknown> = { "&filetype": "lua" };
+    const denops = createFakeDenops(variables);
+    const resolver = createConfigResolver(config);
+
+    assertEquals((await resolver.resolve(denops, 1)).enabled.added, true);
+
+    variables.highlight_undo_config = { enabled: { added: false, removed: false } };
+    assertEquals((await resolver.resolve(denops, 1)).enabled, { added: false, removed: false });
+  });
+
+  it("should ignore an invalid buffer override and show its diagnostics once", async () => {
+    const echoed: unknown[] = [];
+    const denops = {
+      call: (fn: string, ...args: unknown[]) => {
+        if (fn === "nvim_echo") {
+          echoed.push(args[0]);
+          return Promise.resolve(null);
+        }
+        const variables: Record<string, unknown> = {
+          "&filetype": "markdown",
+          highlight_undo_config: { duration: -1, durration: 100 },
+        };
+        return Promise.resolve(variables[args[1] as string] ?? "");
+      },
+    } as unknown as Denops;
+    const resolver = createConfigResolver(config);
+
+    assertEquals((await resolver.resolve(denops, 1)).duration, 400);
+    await resolver.resolve(denops, 1);
+
+    assertEquals(echoed.length, 1);
+    assertEquals((echoed[0] as Array<[string, string]>).map(([chunk]) => chunk).join("").split("\n"), [
+      "[highlight-undo] Ignoring b:highlight_undo_config of buffer 1",
+      '[highlight-undo] Warning in durration: unknown key, ignored (did you mean "duration"?)',
+      "[highlight-undo] Error in duration: Number must be greater than 0, received -1",
+    ]);
+  });
+
+  it("should apply a buffer override with an unknown key and warn about the key", async () => {
+    const echoed: unknown[] = [];
+    const denops = {
+      call: (fn: string, ...args: unknown[]) => {
+        if (fn === "nvim_echo") {
+          echoed.push(args[0]);
+          return Promise.resolve(null);
+        }
+        const variables: Record<string, unknown> = { highlight_undo_config: { duration: 50, durration: 100 } };
+        return Promise.resolve(variables[args[1] as string] ?? "");
+      },
+    } as unknown as Denops;
+    const resolver = createConfigResolver(config);
+
+    assertEquals((await resolver.resolve(denops, 1)).duration, 50);
+
+    assertEquals((echoed[0] as Array<[string, string]>).map(([chunk]) => chunk).join("").split("\n"), [
+      "[highlight-undo] b:highlight_undo_config of buffer 1",
+      '[highlight-undo] Warning in durration: unknown key, ignored (did you mean "duration"?)',
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+// The global config, replaced as a whole by runtime updates
+
+import { type Config, mergeConfig } from "../config.ts";
+import type { ConfigDiagnostic } from "../config-diagnostics.ts";
+
+export type ConfigEvent = "config:changed";
+
+export type ConfigListener = (config: Config, previous: Config) => void;
+
+export interface IConfigStore {
+  get(): Config;
+  /**
+   * Deep-merge `partial` into the current config and swap the result in.
+   * An invalid update throws ConfigValidationError and keeps the current config;
+   * unknown keys are dropped and reported to `warnings` when given.
+   */
+  update(partial: unknown, warnings?: ConfigDiagnostic[]): Config;
+  /**
+   * Call `listener` after every update, returns the function removing it
+   */
+  on(event: ConfigEvent, listener: ConfigListener): () => void;
+}
+
+export function createConfigStore(config: Config): IConfigStore {
+  let current = config;
+  const listeners = new Set<ConfigListener>();
+
+  function update(partial: unknown, warnings?: ConfigDiagnostic[]): Config {
+    // Merging throws before anything is swapped
+    const next = mergeConfig(partial, current, warnings);
+    const previous = current;
+    current = next;
+
+    for (const listener of listeners) {
+      try {
+        listener(next, previous);
+      } catch (error) {
+        console.error(`[highlight-undo] Error in config:changed listener:`, error);
+      }
+    }
+    return next;
+  }
+
+  function on(_event: ConfigEvent, listener: ConfigListener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  return {
+    get: () => current,
+    update,
+    on,
+  };
+}
@@ -0,0 +1,50 @@
+import { assertEquals, assertThrows } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import { createConfigStore } from "./config-store.ts";
+import { type Config, validateConfig } from "../config.ts";
+import { defaultConfig } from "../config-schema.ts";
+
+describe("ConfigStore", () => {
+  const config: Config = validateConfig(defaultConfig);
+
+  it("should deep-merge updates into the current config", () => {
+    const store = createConfigStore(config);
+
+    store.update({ signs: { enabled: true } });
+    const updated = store.update({ duration: 500 });
+
+    assertEquals(updated.duration, 500);
+    assertEquals(updated.signs?.enabled, true);
+    assertEquals(updated.signs?.text?.added, "+");
+    assertEquals(store.get(), updated);
+  });
+
+  it("should reject an invalid update with its path and keep the current config", () => {
+    const store = createConfigStore(config);
+    const changes: number[] = [];
+    store.on("config:changed", (next) => changes.push(next.duration));
+
+    assertThrows(
+      () => store.update({ queue: { maxDepth: 0 } }),
+      Error,
+      "queue.maxDepth",
+    );
+    assertEquals(store.get(), config);
+    assertEquals(changes, []);
+  });
+
+  it("should emit config:changed with the new and previous config", () => {
+    const store = createConfigStore(config);
+    const changes: string[] = [];
+    const off = store.on(
+      "config:changed",
+      (next, previous) => changes.push(`${previous.duration} -> ${next.duration}`),
+    );
+
+    store.update({ duration: 300 });
+    off();
+    store.update({ duration: 400 });
+
+    assertEquals(changes, ["200 -> 300"]);
+  });
+});
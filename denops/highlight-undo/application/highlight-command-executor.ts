@@ -1,11 +1,17 @@
 import type { Denops } from "../deps.ts";
-import type { Config } from "../config.ts";
-import type { IBufferStateManager } from "./buffer-state.ts";
-import type { DiffResult, IDiffOptimizer } from "../core/diff-optimizer.ts";
+import { type Config, diffOptionsOf, highlightGroupsOf, signOptionsOf } from "../config.ts";
+import type { BufferState, IBufferStateManager } from "./buffer-state.ts";
+import type { DiffOptions, DiffResult, IDiffOptimizer } from "../core/diff-optimizer.ts";
 import type { IHighlightBatcher } from "../infrastructure/highlight-batcher.ts";
+import type { IHighlightAnimator } from "../infrastructure/highlight-animator.ts";
+import type { IClearingPolicy } from "./clearing-policy.ts";
+import type { IConfigResolver } from "./config-resolver.ts";
 import type { IErrorHandler } from "../error-handler.ts";
 import { createPerformanceMonitor, formatPerformanceMetrics, type IPerformanceMonitor } from "../performance.ts";
-import { computeRanges, type Range } from "../core/range-computer.ts";
+import { type ChangeType, computeRanges, hasUnpairedRemovals, type Range } from "../core/range-computer.ts";
+import { computeGhostTexts } from "../core/ghost-text.ts";
+import { formatOffscreenMessage, pickJumpTarget, summarizeOffscreen } from "../core/navigation.ts";
+import { computeSignMarkers } from "../core/sign-markers.ts";
 import { fillRangeGaps } from "../core/utils.ts";
 import {
   adjustNewlineBoundaries,
@@ -18,52 +24,51 @@ import {
 import { applyHeuristicStrategy } from "../core/heuristic-strategy.ts";
 import { convertRangesWithEncoding } from "../core/range-encoding.ts";
 import { Diff, fn } from "../deps.ts";
-
-type Command = "undo" | "redo";
+import { canExecute, toExCommand, type UndoCommandRequest, type UndoTree } from "./undo-command.ts";
 
 export interface HighlightCommandExecutorDeps {
   bufferStates: IBufferStateManager;
   diffOptimizer: IDiffOptimizer;
   highlightBatcher: IHighlightBatcher;
+  highlightAnimator: IHighlightAnimator;
+  clearingPolicy: IClearingPolicy;
   errorHandler: IErrorHandler;
-  config: Config;
+  config: IConfigResolver;
   nameSpace: number;
   debugMode: boolean;
 }
 
+// Deps of one execution, with the config resolved for its buffer
+type ExecutionDeps = Omit<HighlightCommandExecutorDeps, "config"> & { config: Config };
+
 export interface IHighlightCommandExecutor {
+  /**
+   * Run the command in `bufnr` with highlights. Once `signal` is aborted, waits end early
+   * and a command that has not started yet runs without highlight.
+   */
   execute(
     denops: Denops,
-    command: string,
+    request: UndoCommandRequest,
     bufnr: number,
+    signal?: AbortSignal,
   ): Promise<void>;
 }
 
 // Helper functions
 async function checkPreconditions(
   denops: Denops,
-  command: Command,
+  request: UndoCommandRequest,
+  bufnr: number,
 ): Promise<boolean> {
-  const undoTree = await fn.undotree(denops) as unknown as {
-    entries: Array<{ curhead?: number }>;
-  };
-
-  if (
-    undoTree.entries.length === 0 ||
-    (command === "redo" &&
-      !undoTree.entries.some((entry) => entry.curhead != null)) ||
-    (command === "undo" && undoTree.entries[0].curhead != null)
-  ) {
-    return false;
-  }
-  return true;
+  const undoTree = await fn.undotree(denops, bufnr) as unknown as UndoTree;
+  return canExecute(undoTree, request);
 }
 
 function prepareState(
   bufferStates: IBufferStateManager,
   bufnr: number,
   debugMode: boolean,
-): { preCode: string; postCode: string } | null {
+): BufferState | null {
   const state = bufferStates.get(bufnr);
 
   if (!state) {
@@ -90,6 +95,7 @@ function calculateDiff(
   preCode: string,
   postCode: string,
   threshold: { line: number; char: number },
+  options?: DiffOptions,
 ): DiffResult | null {
   // Always use the regular diff optimizer
   // The heuristic strategy will handle display optimizations
@@ -97,6 +103,7 @@ function calculateDiff(
     preCode,
     postCode,
     threshold,
+    options,
   );
 
   return result;
@@ -137,22 +144,52 @@ export function applyRangeAdjustments(
   return adjustedRanges;
 }
 
+/**
+ * Mark the changed lines in the sign column when `signs.enabled` is set
+ */
+async function applySigns(
+  denops: Denops,
+  items: ReadonlyArray<{ lnum: number; changeType: ChangeType }>,
+  bufnr: number,
+  changedtick: number | undefined,
+  deps: ExecutionDeps,
+): Promise<void> {
+  const options = signOptionsOf(deps.config);
+  if (!options || items.length === 0) {
+    return;
+  }
+
+  await deps.highlightBatcher.applySigns(
+    denops,
+    computeSignMarkers(items),
+    deps.nameSpace,
+    bufnr,
+    options,
+    changedtick,
+  );
+}
+
 /**
  * Apply highlights to ranges without automatic clearing.
  * Used when manual control over clearing is needed.
+ * Returns the highlighted ranges after adjustment (byte columns),
+ * none when the buffer changed since `changedtick` the ranges were computed for.
  */
 async function applyHighlightWithoutClear(
   denops: Denops,
   ranges: ReadonlyArray<Range>,
   changeType: "added" | "removed",
-  deps: HighlightCommandExecutorDeps,
-): Promise<void> {
+  bufnr: number,
+  changedtick: number | undefined,
+  deps: ExecutionDeps,
+): Promise<ReadonlyArray<Range>> {
   if (ranges.length === 0) {
-    return;
+    return [];
   }
 
   try {
-    const highlightGroup = changeType === "added" ? deps.config.highlight.added : deps.config.highlight.removed;
+    const groups = highlightGroupsOf(deps.config);
+    const highlightGroup = groups[changeType];
 
     // Apply range adjustments for more intuitive highlighting
     const adjustedRanges = applyRangeAdjustments(ranges, deps.config);
@@ -164,23 +201,160 @@ async function applyHighlightWithoutClear(
     // Convert ranges with proper encoding
     const convertedRanges = convertRangesWithEncoding(adjustedRanges);
 
-    await deps.highlightBatcher.applyHighlights(
+    const placed = await deps.highlightBatcher.applyHighlights(
       denops,
       convertedRanges,
       deps.nameSpace,
+      bufnr,
       highlightGroup,
+      { moved: groups.moved, changed: groups.changed },
+      changedtick,
     );
+    if (!placed) {
+      if (deps.debugMode) {
+        console.log(`[highlight-undo] Buffer ${bufnr} changed since tick ${changedtick}, highlights skipped`);
+      }
+      return [];
+    }
+    await applySigns(denops, convertedRanges, bufnr, changedtick, deps);
+    return convertedRanges;
   } catch (error) {
     await deps.errorHandler.handle(denops, error, {
       phase: "applyHighlightWithoutClear",
       changeType,
       rangeCount: ranges.length,
     });
+    return [];
+  }
+}
+
+/**
+ * Move the cursor to the first or nearest highlighted range (`jump.target`),
+ * report the ranges outside the window (`jump.indicator`)
+ * and let the other windows showing the buffer follow (`windows.sync`).
+ */
+async function revealRanges(
+  denops: Denops,
+  ranges: ReadonlyArray<Range>,
+  bufnr: number,
+  deps: ExecutionDeps,
+): Promise<void> {
+  const target = deps.config.jump?.target ?? "none";
+  const indicator = deps.config.jump?.indicator ?? "none";
+  const sync = deps.config.windows?.sync ?? "none";
+  if (ranges.length === 0 || (target === "none" && indicator === "none" && sync === "none")) {
+    return;
+  }
+
+  try {
+    if (sync !== "none") {
+      const first = ranges.reduce((a, b) => (b.lnum < a.lnum ? b : a));
+      await deps.highlightBatcher.syncWindows(denops, bufnr, first.lnum, sync);
+    }
+
+    // The cursor and the visible lines belong to the current window,
+    // which may show another buffer by now
+    if ((target === "none" && indicator === "none") || (await fn.bufnr(denops, "%")) !== bufnr) {
+      return;
+    }
+
+    if (target !== "none") {
+      const [, cursorLnum] = (await denops.call("getcurpos")) as number[];
+      const range = pickJumpTarget(ranges, target, cursorLnum);
+      if (range) {
+        await denops.call("cursor", range.lnum, range.col.start + 1);
+        // Let the window scroll to the cursor before reading the visible lines
+        await denops.cmd("redraw");
+      }
+    }
+
+    if (indicator === "none") {
+      return;
+    }
+
+    const [top, bottom] = (await denops.eval("[line('w0'), line('w$')]")) as [number, number];
+    const summary = summarizeOffscreen(ranges, { top, bottom });
+    const indicators = [
+      ...(summary.above ? [{ lnum: top, text: `↑ ${formatOffscreenMessage("above", summary.above)}` }] : []),
+      ...(summary.below ? [{ lnum: bottom, text: `↓ ${formatOffscreenMessage("below", summary.below)}` }] : []),
+    ];
+    if (indicators.length === 0) {
+      return;
+    }
+
+    if (indicator === "notify") {
+      await denops.call(
+        "nvim_echo",
+        [[`[highlight-undo] ${indicators.map((item) => item.text).join("  ")}`, "WarningMsg"]],
+        false,
+        {},
+      );
+    } else {
+      await deps.highlightBatcher.showIndicators(denops, indicators, deps.nameSpace, bufnr);
+    }
+  } catch (error) {
+    await deps.errorHandler.handle(denops, error, {
+      phase: "revealRanges",
+      rangeCount: ranges.length,
+    });
   }
 }
 
 /**
- * Apply highlights with automatic clearing after duration.
+ * Run `command` in `bufnr`, which is no longer the current buffer
+ * when the user switched buffers while the highlights were shown.
+ * Returns b:changedtick right after the command, the tick the post-command ranges belong to.
+ */
+async function executeInBuffer(
+  denops: Denops,
+  command: string,
+  bufnr: number,
+): Promise<number> {
+  return (await denops.call(
+    "luaeval",
+    "require('highlight-undo')._execute(_A[1], _A[2])",
+    [bufnr, command],
+  )) as number;
+}
+
+/**
+ * Whether `bufnr` changed since b:changedtick was `changedtick`,
+ * e.g. because the user typed while the highlights were shown
+ */
+async function hasDrifted(
+  denops: Denops,
+  bufnr: number,
+  changedtick: number | undefined,
+): Promise<boolean> {
+  if (changedtick === undefined) {
+    return false;
+  }
+  return (await fn.getbufvar(denops, bufnr, "changedtick")) !== changedtick;
+}
+
+/**
+ * Keep the highlights for the configured duration before the command runs,
+ * fading them out when animation is enabled. A later command aborting `signal` ends the wait.
+ */
+async function waitForDuration(
+  denops: Denops,
+  bufnr: number,
+  signal: AbortSignal | undefined,
+  deps: ExecutionDeps,
+): Promise<void> {
+  await deps.highlightAnimator.fadeOut(
+    denops,
+    deps.nameSpace,
+    bufnr,
+    Object.values(highlightGroupsOf(deps.config)),
+    deps.config.duration,
+    deps.config.animation,
+    signal,
+  );
+}
+
+/**
+ * Apply highlights and leave their clearing to the clearing policy.
  * This is the standard highlight flow.
  */
 async function highlight(
@@ -188,7 +362,9 @@ async function highlight(
   ranges: ReadonlyArray<Range>,
   changeType: "added" | "removed",
   bufnr: number,
-  deps: HighlightCommandExecutorDeps,
+  changedtick: number,
+  signal: AbortSignal | undefined,
+  deps: ExecutionDeps,
 ): Promise<void> {
   if (ranges.length === 0) {
     return;
@@ -196,17 +372,11 @@ async function highlight(
 
   try {
     // Apply highlights
-    await applyHighlightWithoutClear(denops, ranges, changeType, deps);
-
-    // Wait for the specified duration before clearing highlights
-    await new Promise((resolve) => setTimeout(resolve, deps.config.duration));
+    const highlightedRanges = await applyHighlightWithoutClear(denops, ranges, changeType, bufnr, changedtick, deps);
+    await revealRanges(denops, highlightedRanges, bufnr, deps);
 
-    // Clear highlights
-    await deps.highlightBatcher.clearHighlights(
-      denops,
-      deps.nameSpace,
-      bufnr,
-    );
+    // Clear after the duration, or on the configured event
+    await deps.clearingPolicy.afterHighlight(denops, bufnr, undefined, signal);
   } catch (error) {
     await deps.errorHandler.handle(denops, error, {
       phase: "highlight",
@@ -223,14 +393,17 @@ async function highlightAdditions(
   afterCode: string,
   lineInfo: { aboveLine: number; belowLine: number },
   bufnr: number,
+  changedtick: number,
+  signal: AbortSignal | undefined,
   perf: IPerformanceMonitor | null,
-  deps: HighlightCommandExecutorDeps,
+  deps: ExecutionDeps,
 ): Promise<void> {
   const addedRanges = computeRanges({
     changes,
     beforeCode,
     afterCode,
     changeType: "added",
+    pairReplacements: true,
   });
 
   const filledRanges = fillRangeGaps({
@@ -240,7 +413,7 @@ async function highlightAdditions(
   });
 
   perf?.mark("highlightApplication");
-  await highlight(denops, filledRanges, "added", bufnr, deps);
+  await highlight(denops, filledRanges, "added", bufnr, changedtick, signal, deps);
 }
 
 async function highlightRemovals(
@@ -250,15 +423,19 @@ async function highlightRemovals(
   afterCode: string,
   lineInfo: { aboveLine: number; belowLine: number },
   bufnr: number,
+  changedtick: number,
+  signal: AbortSignal | undefined,
   perf: IPerformanceMonitor | null,
-  deps: HighlightCommandExecutorDeps,
+  deps: ExecutionDeps,
 ): Promise<void> {
+  // Replaced text is shown as "changed" on the added side
   const removedRanges = computeRanges({
     changes,
     beforeCode,
     afterCode,
     changeType: "removed",
-  });
+    pairReplacements: true,
+  }).filter((range) => range.changeType !== "changed");
 
   const filledRanges = fillRangeGaps({
     ranges: removedRanges,
@@ -267,20 +444,50 @@ async function highlightRemovals(
   });
 
   perf?.mark("highlightApplication");
-  await highlight(denops, filledRanges, "removed", bufnr, deps);
+  await highlight(denops, filledRanges, "removed", bufnr, changedtick, signal, deps);
+}
+
+/**
+ * Show where moved lines ended up and what replaced text became once the command has run.
+ * Pure removals and move origins are highlighted before the command.
+ */
+async function highlightMovedAndChanged(
+  denops: Denops,
+  diffResult: DiffResult,
+  state: BufferState,
+  bufnr: number,
+  changedtick: number,
+  signal: AbortSignal | undefined,
+  deps: ExecutionDeps,
+): Promise<void> {
+  if (!deps.config.enabled.added) {
+    return;
+  }
+
+  const ranges = computeRanges({
+    changes: diffResult.changes,
+    beforeCode: state.preCode,
+    afterCode: state.postCode,
+    changeType: "added",
+    pairReplacements: true,
+  }).filter((range) => range.changeType === "moved" || range.changeType === "changed");
+
+  await highlight(denops, ranges, "added", bufnr, changedtick, signal, deps);
 }
 
 async function applyHighlights(
   denops: Denops,
   diffResult: DiffResult,
-  state: { preCode: string; postCode: string },
+  state: BufferState,
   bufnr: number,
+  changedtick: number,
+  signal: AbortSignal | undefined,
   perf: IPerformanceMonitor | null,
-  deps: HighlightCommandExecutorDeps,
+  deps: ExecutionDeps,
 ): Promise<void> {
   const { changes, lineInfo } = diffResult;
   const hasAdditions = changes.some((change) => change.added);
-  const hasRemovals = changes.some((change) => change.removed);
+  const hasRemovals = hasUnpairedRemovals(changes);
 
   if (hasAdditions && deps.config.enabled.added) {
     await highlightAdditions(
@@ -290,6 +497,8 @@ async function applyHighlights(
       state.postCode,
       lineInfo,
       bufnr,
+      changedtick,
+      signal,
       perf,
       deps,
     );
@@ -303,6 +512,8 @@ async function applyHighlights(
       state.postCode,
       lineInfo,
       bufnr,
+      changedtick,
+      signal,
       perf,
       deps,
     );
@@ -313,21 +524,26 @@ async function applyHighlights(
  * Special highlight flow for removal operations.
  * Shows what will be removed BEFORE executing the command.
  *
- * Flow: Highlight removed parts → Wait → Execute command → Clear highlights
+ * Flow: Highlight removed parts and reveal them → Wait → Execute command → Clear highlights
+ *       → Highlight destinations of moved lines and replacements (if any)
  *
  * This is different from the standard flow where we execute first then highlight.
  * Used when we want to show users what will disappear before it actually does.
+ * When the buffer changes during the wait, the command is skipped with a warning:
+ * it would act on the new edit instead of the highlighted change.
  */
 async function applyHighlightsWithDelayedCommand(
   denops: Denops,
   diffResult: DiffResult,
-  state: { preCode: string; postCode: string },
+  state: BufferState,
   bufnr: number,
   command: string,
+  signal: AbortSignal | undefined,
   _perf: IPerformanceMonitor | null,
-  deps: HighlightCommandExecutorDeps,
+  deps: ExecutionDeps,
 ): Promise<void> {
   const { changes, lineInfo } = diffResult;
+  let changedtick: number;
 
   // Only highlight removals (we show what will be removed before removal)
   if (deps.config.enabled.removed) {
@@ -336,7 +552,8 @@ async function applyHighlightsWithDelayedCommand(
       beforeCode: state.preCode,
       afterCode: state.postCode,
       changeType: "removed",
-    });
+      pairReplacements: true,
+    }).filter((range) => range.changeType !== "changed");
 
     if (deps.debugMode) {
       console.log(`[highlight-undo] Removed ranges before fillRangeGaps:`, removedRanges);
@@ -359,20 +576,39 @@ async function applyHighlightsWithDelayedCommand(
           `[highlight-undo] Applying highlight for removal, ranges: ${filledRanges.length}, duration: ${deps.config.duration}ms`,
         );
       }
-      await applyHighlightWithoutClear(denops, filledRanges, "removed", deps);
+      const highlightedRanges = await applyHighlightWithoutClear(
+        denops,
+        filledRanges,
+        "removed",
+        bufnr,
+        state.changedtick,
+        deps,
+      );
+      await revealRanges(denops, highlightedRanges, bufnr, deps);
 
       // Wait for duration
       if (deps.debugMode) {
         console.log(`[highlight-undo] Waiting for ${deps.config.duration}ms before executing command`);
       }
-      await new Promise((resolve) => setTimeout(resolve, deps.config.duration));
+      await waitForDuration(denops, bufnr, signal, deps);
+
+      if (await hasDrifted(denops, bufnr, state.changedtick)) {
+        await deps.highlightBatcher.clearHighlights(denops, deps.nameSpace, bufnr);
+        await denops.call(
+          "nvim_echo",
+          [[`[highlight-undo] Buffer changed while highlighted, skipped ${command}`, "WarningMsg"]],
+          false,
+          {},
+        );
+        return;
+      }
 
       // Execute the command and clear highlights
       if (deps.debugMode) {
         console.log(`[highlight-undo] Executing command: ${command} and clearing highlights`);
       }
       try {
-        await denops.cmd(command);
+        changedtick = await executeInBuffer(denops, command, bufnr);
         await deps.highlightBatcher.clearHighlights(denops, deps.nameSpace, bufnr);
         if (deps.debugMode) {
           console.log(`[highlight-undo] Command executed successfully`);
@@ -383,11 +619,94 @@ async function applyHighlightsWithDelayedCommand(
       }
     } else {
       // No removals to highlight, just execute the command
-      await denops.cmd(command);
+      changedtick = await executeInBuffer(denops, command, bufnr);
     }
   } else {
     // Removals not enabled, just execute the command
-    await denops.cmd(command);
+    changedtick = await executeInBuffer(denops, command, bufnr);
+  }
+
+  await highlightMovedAndChanged(denops, diffResult, state, bufnr, changedtick, signal, deps);
+}
+
+/**
+ * Highlight flow for removals with `display.removed = "virtual"`.
+ * The command runs first; removed text is shown as virtual text at the place it was removed from.
+ *
+ * Flow: Execute command → Highlight additions and show ghost text → Clear (per clearing policy)
+ */
+async function applyHighlightsWithGhostText(
+  denops: Denops,
+  diffResult: DiffResult,
+  state: BufferState,
+  bufnr: number,
+  changedtick: number,
+  signal: AbortSignal | undefined,
+  perf: IPerformanceMonitor | null,
+  deps: ExecutionDeps,
+): Promise<void> {
+  const { changes, lineInfo } = diffResult;
+
+  const addedRanges = deps.config.enabled.added
+    ? fillRangeGaps({
+      ranges: computeRanges({
+        changes,
+        beforeCode: state.preCode,
+        afterCode: state.postCode,
+        changeType: "added",
+        pairReplacements: true,
+      }),
+      aboveLine: lineInfo.aboveLine,
+      belowLine: lineInfo.belowLine,
+    })
+    : [];
+  const ghostTexts = deps.config.enabled.removed ? computeGhostTexts({ changes, afterCode: state.postCode }) : [];
+
+  if (deps.debugMode) {
+    console.log(`[highlight-undo] Ghost texts:`, JSON.stringify(ghostTexts));
+  }
+
+  if (addedRanges.length === 0 && ghostTexts.length === 0) {
+    return;
+  }
+
+  perf?.mark("highlightApplication");
+  try {
+    // Highlights first: applying them clears the namespace
+    const highlightedRanges = await applyHighlightWithoutClear(
+      denops,
+      addedRanges,
+      "added",
+      bufnr,
+      changedtick,
+      deps,
+    );
+    await deps.highlightBatcher.applyVirtualText(
+      denops,
+      ghostTexts,
+      deps.nameSpace,
+      bufnr,
+      highlightGroupsOf(deps.config),
+      changedtick,
+    );
+    // Lines with highlighted ranges already have their sign
+    const signedLines = new Set(highlightedRanges.map((range) => range.lnum));
+    await applySigns(
+      denops,
+      ghostTexts.filter((ghostText) => !signedLines.has(ghostText.lnum)),
+      bufnr,
+      changedtick,
+      deps,
+    );
+    await revealRanges(denops, highlightedRanges, bufnr, deps);
+
+    await deps.clearingPolicy.afterHighlight(denops, bufnr, undefined, signal);
+  } catch (error) {
+    await deps.errorHandler.handle(denops, error, {
+      phase: "applyHighlightsWithGhostText",
+      rangeCount: addedRanges.length,
+      ghostTextCount: ghostTexts.length,
+    });
   }
 }
 
@@ -402,7 +721,7 @@ async function executeWithoutHighlight(
       `[highlight-undo] No buffer state found for bufnr ${bufnr}, executing without highlight`,
     );
   }
-  await denops.cmd(command);
+  await executeInBuffer(denops, command, bufnr);
 }
 
 export function createHighlightCommandExecutor(
@@ -410,13 +729,16 @@ export function createHighlightCommandExecutor(
 ): IHighlightCommandExecutor {
   async function execute(
     denops: Denops,
-    command: string,
+    request: UndoCommandRequest,
     bufnr: number,
+    signal?: AbortSignal,
   ): Promise<void> {
-    if (!(await checkPreconditions(denops, command as Command))) {
+    if (!(await checkPreconditions(denops, request, bufnr))) {
       return;
     }
 
+    const command = toExCommand(request);
+
     const perf = deps.debugMode ? createPerformanceMonitor() : null;
 
     try {
@@ -426,22 +748,43 @@ export function createHighlightCommandExecutor(
         return;
       }
 
+      // The states describe the buffer at capture time, an edit since then makes their ranges stale
+      if (await hasDrifted(denops, bufnr, state.changedtick)) {
+        if (deps.debugMode) {
+          console.log(
+            `[highlight-undo] Buffer ${bufnr} changed since tick ${state.changedtick}, executing without highlight`,
+          );
+        }
+        await executeInBuffer(denops, command, bufnr);
+        return;
+      }
+
+      // A later command is already waiting, catch up without showing this one
+      if (signal?.aborted) {
+        await executeInBuffer(denops, command, bufnr);
+        return;
+      }
+
+      // Filetype and buffer-local overrides apply from here on
+      const bufferDeps: ExecutionDeps = { ...deps, config: await deps.config.resolve(denops, bufnr) };
+
       const diffResult = calculateDiff(
         deps.diffOptimizer,
         state.preCode,
         state.postCode,
-        deps.config.threshold,
+        bufferDeps.config.threshold,
+        diffOptionsOf(bufferDeps.config),
       );
       if (!diffResult) {
         if (deps.debugMode) {
           console.log(`[highlight-undo] No diff result, executing command without highlight`);
         }
-        await denops.cmd(command);
+        await executeInBuffer(denops, command, bufnr);
         return;
       }
 
-      // Check if there are removals (regardless of undo/redo)
-      const hasRemovals = diffResult.changes.some((c) => c.removed);
+      // Check if there are removals (regardless of undo/redo); replaced text is highlighted afterwards
+      const hasRemovals = hasUnpairedRemovals(diffResult.changes);
       const hasAdditions = diffResult.changes.some((c) => c.added);
 
       if (deps.debugMode) {
@@ -450,7 +793,11 @@ export function createHighlightCommandExecutor(
         );
       }
 
-      if (hasRemovals) {
+      if (hasRemovals && bufferDeps.config.display?.removed === "virtual") {
+        // Removals shown as virtual text: execute right away, no delay
+        const changedtick = await executeInBuffer(denops, command, bufnr);
+        await applyHighlightsWithGhostText(denops, diffResult, state, bufnr, changedtick, signal, perf, bufferDeps);
+      } else if (hasRemovals) {
         // For any command with removals: highlight first, then execute after duration
         await applyHighlightsWithDelayedCommand(
           denops,
@@ -458,13 +805,14 @@ export function createHighlightCommandExecutor(
           state,
           bufnr,
           command,
+          signal,
           perf,
-          deps,
+          bufferDeps,
         );
       } else {
         // For additions only: execute command first, then show what was added
-        await denops.cmd(command);
-        await applyHighlights(denops, diffResult, state, bufnr, perf, deps);
+        const changedtick = await executeInBuffer(denops, command, bufnr);
+        await applyHighlights(denops, diffResult, state, bufnr, changedtick, signal, perf, bufferDeps);
       }
 
       if (perf) {
@@ -1,13 +1,18 @@
 // deno-lint-ignore-file require-await
 import { assertEquals, assertExists } from "../deps.ts";
 import { describe, it } from "../deps.ts";
-// Removed unused import: createHighlightCommandExecutor
+import type { Denops } from "../deps.ts";
 import { createBufferStateManager } from "./buffer-state.ts";
 import { createDiffOptimizer } from "../core/diff-optimizer.ts";
 import { createHighlightBatcher } from "../infrastructure/highlight-batcher.ts";
+import { createHighlightAnimator, type IHighlightAnimator } from "../infrastructure/highlight-animator.ts";
+import { createClearingPolicy } from "./clearing-policy.ts";
+import { createConfigResolver } from "./config-resolver.ts";
 import { createErrorHandler } from "../error-handler.ts";
 import type { Config } from "../config.ts";
-// Removed unused import: Denops
+import { applyRangeAdjustments, createHighlightCommandExecutor } from "./highlight-command-executor.ts";
+import { computeRanges } from "../core/range-computer.ts";
+import { fillRangeGaps } from "../core/utils.ts";
 
 // Since we can't easily mock the fn module, we'll test the core logic
 // by testing internal functions that don't depend on fn
@@ -52,6 +57,7 @@ describe("HighlightCommandExecutor - Core Logic", () => {
     const bufferStates = createBufferStateManager();
     const diffOptimizer = createDiffOptimizer();
     const highlightBatcher = createHighlightBatcher();
+    const highlightAnimator = createHighlightAnimator();
     const errorHandler = createErrorHandler();
     const config: Config = {
       duration: 200,
@@ -60,11 +66,19 @@ describe("HighlightCommandExecutor - Core Logic", () => {
       threshold: { line: 50, char: 1500 },
       mappings: { undo: "u", redo: "<C-r>" },
     };
+    const clearingPolicy = createClearingPolicy({
+      highlightBatcher,
+      highlightAnimator,
+      config: createConfigResolver(config),
+      nameSpace: 1,
+    });
 
     return {
       bufferStates,
       diffOptimizer,
       highlightBatcher,
+      highlightAnimator,
+      clearingPolicy,
       errorHandler,
       config,
       nameSpace: 1,
@@ -154,4 +168,211 @@ describe("HighlightCommandExecutor - Core Logic", () => {
       // This test just ensures it doesn't throw
     });
   });
+
+  describe("counted undo", () => {
+    // 3u: the pre-state is captured once and the post-state after all three steps
+    const preCode = "const a = 1;\nconst b = 2;\nconst c = 3;\n";
+    const postCode = "const a = 1;\n";
+
+    it("should highlight all steps as one aggregated change", () => {
+      const deps = createMockDeps();
+      const diffResult = deps.diffOptimizer.calculateDiff(preCode, postCode, deps.config.threshold);
+      assertExists(diffResult);
+
+      const removedRanges = computeRanges({
+        changes: diffResult.changes,
+        beforeCode: preCode,
+        afterCode: postCode,
+        changeType: "removed",
+      });
+      const adjustedRanges = applyRangeAdjustments(
+        fillRangeGaps({
+          ranges: removedRanges,
+          aboveLine: diffResult.lineInfo.aboveLine,
+          belowLine: diffResult.lineInfo.belowLine,
+        }),
+        deps.config,
+      );
+
+      assertEquals(adjustedRanges.map((r) => r.lnum), [2, 3]);
+      assertEquals(adjustedRanges.map((r) => r.matchText), ["const b = 2;", "const c = 3;"]);
+    });
+
+    it("should apply the threshold to the aggregated change", () => {
+      const deps = createMockDeps();
+      // Each step removes one line, but together they exceed the line threshold
+      const result = deps.diffOptimizer.calculateDiff(preCode, postCode, { line: 1, char: 1500 });
+
+      assertEquals(result, null);
+    });
+  });
+});
+
+describe("HighlightCommandExecutor - fake buffer", () => {
+  // Buffer 1 at b:changedtick `tick`. Every call is logged, `_execute` runs the command
+  // and Lua refuses to place highlights computed for another tick
+  const createFakeBuffer = (tick: number, override: unknown = "") => {
+    const buffer = { tick, log: [] as string[] };
+    const variables: Record<string, unknown> = { "&filetype": "text", highlight_undo_config: override };
+    const denops = {
+      name: "highlight-undo",
+      cmd: () => Promise.resolve(),
+      call: (fn: string, ...args: unknown[]) => {
+        if (fn === "undotree") {
+          // The current buffer may be another one: only an explicit bufnr reaches buffer 1
+          return Promise.resolve(args[0] === 1 ? { seq_cur: 1, seq_last: 1, entries: [{ seq: 1 }] } : { seq_last: 0 });
+        }
+        if (fn === "getbufvar") {
+          const name = args[1] as string;
+          return Promise.resolve(name === "changedtick" ? buffer.tick : variables[name]);
+        }
+        if (fn === "nvim_echo") {
+          buffer.log.push("echo");
+          return Promise.resolve();
+        }
+        const [expr, luaArgs] = args as [string, unknown[]];
+        const name = expr.match(/\._(\w+)\(/)?.[1];
+        if (name === "execute") {
+          buffer.tick++;
+          buffer.log.push(`execute ${luaArgs[1]} -> ${buffer.tick}`);
+          return Promise.resolve(buffer.tick);
+        }
+        if (name === "apply_highlights") {
+          const placed = luaArgs[4] === buffer.tick;
+          buffer.log.push(`highlight at ${luaArgs[4]}${placed ? "" : " (stale)"}`);
+          return Promise.resolve(placed);
+        }
+        if (name) {
+          buffer.log.push(name);
+        }
+        return Promise.resolve(null);
+      },
+    } as unknown as Denops;
+    return { buffer, denops };
+  };
+
+  const createExecutor = (typeWhileHighlighted: () => void, overrides: Partial<Config> = {}) => {
+    const bufferStates = createBufferStateManager();
+    const highlightBatcher = createHighlightBatcher();
+    // The wait before a delayed command is where the user gets to type
+    const highlightAnimator: IHighlightAnimator = {
+      fadeOut: () => {
+        typeWhileHighlighted();
+        return Promise.resolve();
+      },
+    };
+    const config: Config = {
+      duration: 1,
+      enabled: { added: true, removed: true },
+      highlight: { added: "DiffAdd", removed: "DiffDelete" },
+      threshold: { line: 50, char: 1500 },
+      mappings: { undo: "u", redo: "<C-r>" },
+      clear: "manual",
+      ...overrides,
+    };
+    const configResolver = createConfigResolver(config);
+    const executor = createHighlightCommandExecutor({
+      bufferStates,
+      diffOptimizer: createDiffOptimizer(),
+      highlightBatcher,
+      highlightAnimator,
+      clearingPolicy: createClearingPolicy({
+        highlightBatcher,
+        highlightAnimator,
+        config: configResolver,
+        nameSpace: 1,
+      }),
+      errorHandler: createErrorHandler(),
+      config: configResolver,
+      nameSpace: 1,
+      debugMode: false,
+    });
+    return { bufferStates, executor };
+  };
+
+  const undo = { command: "undo" as const, count: 1 };
+
+  it("should skip the delayed command when the buffer changes while highlighted", async () => {
+    const { buffer, denops } = createFakeBuffer(5);
+    // The user types a line during the wait, the undo would remove it instead of "b"
+    const { bufferStates, executor } = createExecutor(() => buffer.tick++);
+    bufferStates.set(1, "a\nb\n", "a\n", 5);
+
+    await executor.execute(denops, undo, 1);
+
+    assertEquals(buffer.log, ["highlight at 5", "clear_highlights", "echo"]);
+    assertEquals(buffer.tick, 6);
+  });
+
+  it("should run the delayed command when the buffer is unchanged", async () => {
+    const { buffer, denops } = createFakeBuffer(5);
+    const { bufferStates, executor } = createExecutor(() => {});
+    bufferStates.set(1, "a\nb\n", "a\n", 5);
+
+    await executor.execute(denops, undo, 1);
+
+    assertEquals(buffer.log, ["highlight at 5", "execute undo -> 6", "clear_highlights"]);
+  });
+
+  it("should reveal removed ranges before the delayed command runs", async () => {
+    const { buffer, denops } = createFakeBuffer(5);
+    const { bufferStates, executor } = createExecutor(() => {}, { windows: { sync: "scroll" } });
+    bufferStates.set(1, "a\nb\n", "a\n", 5);
+
+    await executor.execute(denops, undo, 1);
+
+    assertEquals(buffer.log, ["highlight at 5", "sync_windows", "execute undo -> 6", "clear_highlights"]);
+  });
+
+  it("should execute without highlight when the buffer changed since the states were captured", async () => {
+    const { buffer, denops } = createFakeBuffer(7);
+    const { bufferStates, executor } = createExecutor(() => {});
+    bufferStates.set(1, "a\n", "a\nb\n", 5);
+
+    await executor.execute(denops, undo, 1);
+
+    assertEquals(buffer.log, ["execute undo -> 8"]);
+  });
+
+  it("should place post-command highlights for the tick right after the command", async () => {
+    const { buffer, denops } = createFakeBuffer(5);
+    const { bufferStates, executor } = createExecutor(() => {});
+    bufferStates.set(1, "a\n", "a\nb\n", 5);
+    // The user types between the command and the highlight request
+    const call = denops.call.bind(denops);
+    denops.call = async (fn: string, ...args: unknown[]) => {
+      const result = await call(fn, ...args);
+      if (String(args[0]).includes("_execute")) {
+        buffer.tick++;
+      }
+      return result;
+    };
+
+    await executor.execute(denops, undo, 1);
+
+    assertEquals(buffer.log, ["execute undo -> 6", "highlight at 6 (stale)"]);
+  });
+
+  it("should run a command cancelled before it started without highlight", async () => {
+    const { buffer, denops } = createFakeBuffer(5);
+    const { bufferStates, executor } = createExecutor(() => {});
+    bufferStates.set(1, "a\nb\n", "a\n", 5);
+    const controller = new AbortController();
+    controller.abort();
+
+    await executor.execute(denops, undo, 1, controller.signal);
+
+    assertEquals(buffer.log, ["execute undo -> 6"]);
+    assertEquals(bufferStates.get(1), null);
+  });
+
+  it("should follow b:highlight_undo_config of the buffer", async () => {
+    const { buffer, denops } = createFakeBuffer(5, { enabled: { added: false, removed: false } });
+    const { bufferStates, executor } = createExecutor(() => {});
+    bufferStates.set(1, "a\nb\n", "a\n", 5);
+
+    await executor.execute(denops, undo, 1);
+
+    assertEquals(buffer.log, ["execute undo -> 6"]);
+  });
 });
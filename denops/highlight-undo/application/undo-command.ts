@@ -0,0 +1,132 @@
+// Undo/redo command model shared by the dispatcher and the executor
+
+export type Command = "undo" | "redo" | "earlier" | "later" | "goto";
+
+export type TimeUnit = "s" | "m" | "h" | "d" | "f";
+
+export interface UndoCommandRequest {
+  command: Command;
+  count: number;
+  unit?: TimeUnit;
+  // Target undo sequence number for goto
+  seq?: number;
+}
+
+export type UndoTreeEntry = {
+  seq: number;
+  curhead?: number;
+  alt?: UndoTreeEntry[];
+};
+
+export type UndoTree = {
+  seq_cur: number;
+  seq_last: number;
+  entries: UndoTreeEntry[];
+};
+
+const COUNTER_COMMANDS: Record<Command, Command> = {
+  undo: "redo",
+  redo: "undo",
+  earlier: "later",
+  later: "earlier",
+  goto: "goto",
+};
+
+export function isCommand(value: unknown): value is Command {
+  return typeof value === "string" && value in COUNTER_COMMANDS;
+}
+
+export function counterCommandOf(command: Command): Command {
+  return COUNTER_COMMANDS[command];
+}
+
+/**
+ * Whether the command moves towards older text states
+ */
+export function isBackwardCommand(command: Command): boolean {
+  return command === "undo" || command === "earlier";
+}
+
+/**
+ * Parse an undo sequence number, 0 being the state before the first change
+ */
+export function parseUndoSeq(value: unknown): number {
+  const seq = typeof value === "number" ? value : Number(String(value ?? "").trim() || NaN);
+  if (!Number.isInteger(seq) || seq < 0) {
+    throw new Error(`Invalid undo sequence number: ${String(value)}`);
+  }
+  return seq;
+}
+
+/**
+ * Parse the arguments received from the dispatcher.
+ * `arg` is a count (`3`), for `:earlier`/`:later` a count with a time unit (`"5m"`, `"1f"`),
+ * and for goto the target sequence number.
+ */
+export function parseUndoCommandRequest(command: unknown, arg?: unknown): UndoCommandRequest {
+  if (!isCommand(command)) {
+    throw new Error(`Unknown command: ${String(command)}`);
+  }
+
+  if (command === "goto") {
+    return { command, count: 1, seq: parseUndoSeq(arg) };
+  }
+
+  if (arg == null || arg === "") {
+    return { command, count: 1 };
+  }
+
+  const match = /^(\d+)([smhdf])?$/.exec(String(arg).trim());
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Invalid argument for ${command}: ${String(arg)}`);
+  }
+
+  const unit = match[2] as TimeUnit | undefined;
+  if (unit && command !== "earlier" && command !== "later") {
+    throw new Error(`Time units are only supported by earlier/later: ${String(arg)}`);
+  }
+
+  return unit ? { command, count: Number(match[1]), unit } : { command, count: Number(match[1]) };
+}
+
+/**
+ * Build the Ex command that performs the request
+ */
+export function toExCommand(request: UndoCommandRequest): string {
+  switch (request.command) {
+    case "undo":
+      return request.count > 1 ? `normal! ${request.count}u` : "undo";
+    case "redo":
+      return request.count > 1 ? `execute "normal! ${request.count}\\<C-r>"` : "redo";
+    case "earlier":
+    case "later":
+      return `${request.command} ${request.count}${request.unit ?? ""}`;
+    case "goto":
+      return `undo ${request.seq ?? 0}`;
+  }
+}
+
+function hasCurhead(entries: ReadonlyArray<UndoTreeEntry>): boolean {
+  return entries.some((entry) => entry.curhead != null || (entry.alt != null && hasCurhead(entry.alt)));
+}
+
+/**
+ * Check whether the request can move the buffer to another undo state
+ */
+export function canExecute(undoTree: UndoTree, request: UndoCommandRequest): boolean {
+  if (undoTree.entries.length === 0) {
+    return false;
+  }
+
+  switch (request.command) {
+    case "undo":
+    case "earlier":
+      return undoTree.seq_cur > 0;
+    case "redo":
+      return undoTree.seq_cur < undoTree.seq_last && hasCurhead(undoTree.entries);
+    case "later":
+      return undoTree.seq_cur < undoTree.seq_last;
+    case "goto":
+      return request.seq != null && request.seq <= undoTree.seq_last && request.seq !== undoTree.seq_cur;
+  }
+}
@@ -0,0 +1,146 @@
+import { assertEquals, assertThrows } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import {
+  canExecute,
+  type Command,
+  counterCommandOf,
+  isBackwardCommand,
+  parseUndoCommandRequest,
+  toExCommand,
+  type UndoCommandRequest,
+  type UndoTree,
+} from "./undo-command.ts";
+
+const request = (command: Command): UndoCommandRequest => ({ command, count: 1 });
+
+const linearTree = (seqCur: number, seqLast: number): UndoTree => ({
+  seq_cur: seqCur,
+  seq_last: seqLast,
+  entries: Array.from({ length: seqLast }, (_, i) => {
+    const seq = i + 1;
+    // Vim marks the first undone entry with curhead
+    return seq === seqCur + 1 ? { seq, curhead: 1 } : { seq };
+  }),
+});
+
+describe("undo-command", () => {
+  describe("parseUndoCommandRequest", () => {
+    it("should default the count to 1", () => {
+      assertEquals(parseUndoCommandRequest("undo"), request("undo"));
+      assertEquals(parseUndoCommandRequest("earlier", ""), request("earlier"));
+    });
+
+    it("should parse counts and time units", () => {
+      assertEquals(parseUndoCommandRequest("undo", 3), { command: "undo", count: 3 });
+      assertEquals(parseUndoCommandRequest("redo", "2"), { command: "redo", count: 2 });
+      assertEquals(parseUndoCommandRequest("earlier", 3), { command: "earlier", count: 3 });
+      assertEquals(parseUndoCommandRequest("earlier", "5m"), { command: "earlier", count: 5, unit: "m" });
+      assertEquals(parseUndoCommandRequest("later", "1f"), { command: "later", count: 1, unit: "f" });
+    });
+
+    it("should reject unknown commands and malformed arguments", () => {
+      assertThrows(() => parseUndoCommandRequest("normal! dd"), Error, "Unknown command");
+      assertThrows(() => parseUndoCommandRequest("earlier", "5x"), Error, "Invalid argument");
+      assertThrows(() => parseUndoCommandRequest("earlier", "0"), Error, "Invalid argument");
+      assertThrows(() => parseUndoCommandRequest("earlier", "1 | !rm"), Error, "Invalid argument");
+      assertThrows(() => parseUndoCommandRequest("undo", "5m"), Error, "Time units");
+    });
+
+    it("should parse goto targets including the original state", () => {
+      assertEquals(parseUndoCommandRequest("goto", 12), { command: "goto", count: 1, seq: 12 });
+      assertEquals(parseUndoCommandRequest("goto", "0"), { command: "goto", count: 1, seq: 0 });
+      assertThrows(() => parseUndoCommandRequest("goto"), Error, "Invalid undo sequence number");
+      assertThrows(() => parseUndoCommandRequest("goto", "-1"), Error, "Invalid undo sequence number");
+      assertThrows(() => parseUndoCommandRequest("goto", "1.5"), Error, "Invalid undo sequence number");
+    });
+  });
+
+  describe("toExCommand", () => {
+    it("should build Ex commands", () => {
+      assertEquals(toExCommand({ command: "undo", count: 1 }), "undo");
+      assertEquals(toExCommand({ command: "redo", count: 1 }), "redo");
+      assertEquals(toExCommand({ command: "undo", count: 3 }), "normal! 3u");
+      assertEquals(toExCommand({ command: "redo", count: 5 }), 'execute "normal! 5\\<C-r>"');
+      assertEquals(toExCommand({ command: "earlier", count: 1 }), "earlier 1");
+      assertEquals(toExCommand({ command: "later", count: 10, unit: "s" }), "later 10s");
+      assertEquals(toExCommand({ command: "goto", count: 1, seq: 4 }), "undo 4");
+    });
+  });
+
+  describe("counter commands", () => {
+    it("should pair each command with its inverse", () => {
+      assertEquals(counterCommandOf("undo"), "redo");
+      assertEquals(counterCommandOf("redo"), "undo");
+      assertEquals(counterCommandOf("earlier"), "later");
+      assertEquals(counterCommandOf("later"), "earlier");
+    });
+
+    it("should classify backward commands", () => {
+      assertEquals(isBackwardCommand("undo"), true);
+      assertEquals(isBackwardCommand("earlier"), true);
+      assertEquals(isBackwardCommand("redo"), false);
+      assertEquals(isBackwardCommand("later"), false);
+    });
+  });
+
+  describe("canExecute", () => {
+    it("should reject everything without undo history", () => {
+      const tree: UndoTree = { seq_cur: 0, seq_last: 0, entries: [] };
+      assertEquals(canExecute(tree, request("undo")), false);
+      assertEquals(canExecute(tree, request("redo")), false);
+      assertEquals(canExecute(tree, request("earlier")), false);
+      assertEquals(canExecute(tree, request("later")), false);
+    });
+
+    it("should only move backward at the newest state", () => {
+      const tree = linearTree(3, 3);
+      assertEquals(canExecute(tree, request("undo")), true);
+      assertEquals(canExecute(tree, request("earlier")), true);
+      assertEquals(canExecute(tree, request("redo")), false);
+      assertEquals(canExecute(tree, request("later")), false);
+    });
+
+    it("should only move forward at the oldest state", () => {
+      const tree = linearTree(0, 3);
+      assertEquals(canExecute(tree, request("undo")), false);
+      assertEquals(canExecute(tree, request("earlier")), false);
+      assertEquals(canExecute(tree, request("redo")), true);
+      assertEquals(canExecute(tree, request("later")), true);
+    });
+
+    it("should find curhead inside alternate branches", () => {
+      const tree: UndoTree = {
+        seq_cur: 1,
+        seq_last: 3,
+        entries: [
+          { seq: 1 },
+          { seq: 3, alt: [{ seq: 2, curhead: 1 }] },
+        ],
+      };
+      assertEquals(canExecute(tree, request("redo")), true);
+    });
+
+    it("should allow later but not redo on a finished branch", () => {
+      // After g- into an older branch there is nothing to redo, but newer states exist
+      const tree: UndoTree = {
+        seq_cur: 2,
+        seq_last: 3,
+        entries: [
+          { seq: 1 },
+          { seq: 3, alt: [{ seq: 2 }] },
+        ],
+      };
+      assertEquals(canExecute(tree, request("redo")), false);
+      assertEquals(canExecute(tree, request("later")), true);
+    });
+
+    it("should only go to existing, different states", () => {
+      const tree = linearTree(2, 4);
+      const goto = (seq: number): UndoCommandRequest => ({ command: "goto", count: 1, seq });
+      assertEquals(canExecute(tree, goto(0)), true);
+      assertEquals(canExecute(tree, goto(4)), true);
+      assertEquals(canExecute(tree, goto(2)), false);
+      assertEquals(canExecute(tree, goto(5)), false);
+    });
+  });
+});
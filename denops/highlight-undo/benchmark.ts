@@ -1,7 +1,7 @@
 // Benchmark script to measure performance improvements
 
 import { createDiffOptimizer } from "./core/diff-optimizer.ts";
-import { diffChars } from "./deps.ts";
+import { diffChars, diffLines } from "./deps.ts";
 
 function generateTestData(size: number): { before: string; after: string } {
   const base = "a".repeat(size);
@@ -108,9 +108,34 @@ console.log("\nTest 4: Large text (10000 chars) - threshold test");
   console.log(`Speed improvement: ${(originalTime / optimizedTime).toFixed(2)}x faster`);
 }
 
+console.log("\nTest 5: Small edits in a 10k-line buffer (line-first diff)");
+{
+  const lines = Array.from({ length: 10000 }, (_, i) => `const value${i} = compute(${i});`);
+  const before = lines.join("\n") + "\n";
+  const after = [
+    ...lines.slice(0, 2500),
+    "const value2500 = compute(2500, true);",
+    ...lines.slice(2501, 7500),
+    "// inserted comment",
+    ...lines.slice(7500),
+  ].join("\n") + "\n";
+  const optimizer = createDiffOptimizer();
+
+  benchmark("Original diff (diffChars + diffLines)", () => {
+    diffChars(before, after);
+    diffLines(before, after);
+  }, 5);
+
+  benchmark("Optimized diff", () => {
+    optimizer.clearCache();
+    optimizer.calculateDiff(before, after, { line: 50, char: 1500 });
+  }, 5);
+}
+
 console.log("\n=== Summary ===");
 console.log("The optimized version shows significant performance improvements:");
 console.log("1. Simple operations are detected and optimized");
 console.log("2. Results are cached for repeated operations");
 console.log("3. Large changes are skipped based on thresholds");
 console.log("4. Batch operations reduce overhead");
+console.log("5. Large buffers only char-diff the changed hunks");
@@ -0,0 +1,199 @@
+// Lua annotations, Lua defaults and a JSON Schema generated from ConfigSchema
+
+import { z } from "./deps.ts";
+import { ConfigSchema, defaultConfig, FiletypeConfigSchema } from "./config-schema.ts";
+
+const HEADER = "-- Generated from config-schema.ts by `deno task generate:config`, do not edit";
+const ROOT_CLASS = "highlight-undo.Config";
+
+// Schemas emitted as a reference to an existing class instead of a class of their own
+const LUA_CLASS_REFERENCES = new Map<z.ZodTypeAny, string>([[FiletypeConfigSchema, ROOT_CLASS]]);
+
+type LuaClass = { name: string; fields: string[] };
+
+// Schema without its optional wrappers, and the description found on the way
+function unwrap(schema: z.ZodTypeAny): { inner: z.ZodTypeAny; description?: string } {
+  let inner = schema;
+  let description = schema.description;
+  while (inner instanceof z.ZodOptional) {
+    inner = inner.unwrap();
+    description ??= inner.description;
+  }
+  return { inner, description };
+}
+
+function unsupported(schema: z.ZodTypeAny, path: string[]): Error {
+  return new Error(`Unsupported schema type ${schema.constructor.name} at ${path.join(".") || "<root>"}`);
+}
+
+// e.g. ["signs", "text"] -> "highlight-undo.SignsText"
+function classNameOf(path: string[]): string {
+  return path.length === 0
+    ? ROOT_CLASS
+    : `highlight-undo.${path.map((key) => key[0].toUpperCase() + key.slice(1)).join("")}`;
+}
+
+// Lua type of `schema`, adding the classes of nested objects to `classes` parent first
+function luaTypeOf(schema: z.ZodTypeAny, path: string[], classes: LuaClass[]): string {
+  const { inner } = unwrap(schema);
+  const reference = LUA_CLASS_REFERENCES.get(inner);
+  if (reference) {
+    return reference;
+  }
+
+  if (inner instanceof z.ZodObject) {
+    const luaClass: LuaClass = { name: classNameOf(path), fields: [] };
+    classes.push(luaClass);
+    for (const [key, field] of Object.entries(inner.shape as z.ZodRawShape)) {
+      const { description } = unwrap(field);
+      const type = luaTypeOf(field, [...path, key], classes);
+      // Every field is optional in Lua, setup() fills in the defaults
+      luaClass.fields.push(`---@field public ${key}? ${type}${description ? ` ${description}` : ""}`);
+    }
+    return luaClass.name;
+  }
+  if (inner instanceof z.ZodString) {
+    return "string";
+  }
+  if (inner instanceof z.ZodNumber) {
+    return inner.isInt ? "integer" : "number";
+  }
+  if (inner instanceof z.ZodBoolean) {
+    return "boolean";
+  }
+  if (inner instanceof z.ZodEnum) {
+    return (inner.options as string[]).map((option) => `"${option}"`).join(" | ");
+  }
+  if (inner instanceof z.ZodTuple) {
+    const types = [...new Set((inner.items as z.ZodTypeAny[]).map((item) => luaTypeOf(item, path, classes)))];
+    return types.length === 1 ? `${types[0]}[]` : "table";
+  }
+  if (inner instanceof z.ZodRecord) {
+    return `table<string, ${luaTypeOf(inner.valueSchema, [...path, "value"], classes)}>`;
+  }
+  throw unsupported(inner, path);
+}
+
+/**
+ * LuaLS `---@class` annotations for lua/highlight-undo/types.lua
+ */
+export function generateLuaTypes(schema: z.ZodTypeAny = ConfigSchema): string {
+  const classes: LuaClass[] = [];
+  luaTypeOf(schema, [], classes);
+
+  const blocks = classes.map(({ name, fields }) => [`---@class ${name}`, ...fields].join("\n"));
+  return `${HEADER}\n\n${blocks.join("\n\n")}\n`;
+}
+
+function luaValueOf(value: unknown, indent: string): string {
+  if (typeof value === "string") {
+    return `'${value.replaceAll("\\", "\\\\").replaceAll("'", "\\'")}'`;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `{ ${value.map((item) => luaValueOf(item, indent)).join(", ")} }`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const inner = `${indent}  `;
+    const entries = Object.entries(value).map(([key, item]) => `${inner}${key} = ${luaValueOf(item, inner)},\n`);
+    return `{\n${entries.join("")}${indent}}`;
+  }
+  throw new Error(`Unsupported default value ${String(value)}`);
+}
+
+/**
+ * Defaults table for lua/highlight-undo/defaults.lua
+ */
+export function generateLuaDefaults(config: unknown = defaultConfig): string {
+  return `${HEADER}\n\n---@type ${ROOT_CLASS}\nreturn ${luaValueOf(config, "")}\n`;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+// Bounds of a number schema as JSON Schema keywords
+function numberBoundsOf(schema: z.ZodNumber): JsonSchema {
+  const bounds: JsonSchema = {};
+  for (const check of schema._def.checks) {
+    if (check.kind === "min") {
+      bounds[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    } else if (check.kind === "max") {
+      bounds[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  }
+  return bounds;
+}
+
+function jsonSchemaOf(schema: z.ZodTypeAny, defaultValue: unknown, path: string[]): JsonSchema {
+  const { inner, description } = unwrap(schema);
+  const annotations: JsonSchema = description ? { description } : {};
+
+  if (inner instanceof z.ZodObject) {
+    const properties = Object.fromEntries(
+      Object.entries(inner.shape as z.ZodRawShape).map(([key, field]) => [
+        key,
+        jsonSchemaOf(field, (defaultValue as Record<string, unknown> | undefined)?.[key], [...path, key]),
+      ]),
+    );
+    // Nothing is required: every required key has a default that setup() fills in
+    return { type: "object", ...annotations, properties, additionalProperties: false };
+  }
+
+  const withDefault = defaultValue === undefined ? annotations : { ...annotations, default: defaultValue };
+  if (inner instanceof z.ZodString) {
+    const { minLength, maxLength } = inner;
+    return {
+      type: "string",
+      ...withDefault,
+      ...(minLength !== null ? { minLength } : {}),
+      ...(maxLength !== null ? { maxLength } : {}),
+    };
+  }
+  if (inner instanceof z.ZodNumber) {
+    return { type: inner.isInt ? "integer" : "number", ...withDefault, ...numberBoundsOf(inner) };
+  }
+  if (inner instanceof z.ZodBoolean) {
+    return { type: "boolean", ...withDefault };
+  }
+  if (inner instanceof z.ZodEnum) {
+    return { type: "string", ...withDefault, enum: inner.options };
+  }
+  if (inner instanceof z.ZodTuple) {
+    const items = inner.items as z.ZodTypeAny[];
+    return {
+      type: "array",
+      ...withDefault,
+      prefixItems: items.map((item, i) => jsonSchemaOf(item, undefined, [...path, String(i)])),
+      minItems: items.length,
+      maxItems: items.length,
+    };
+  }
+  if (inner instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      ...annotations,
+      additionalProperties: jsonSchemaOf(inner.valueSchema, undefined, [...path, "value"]),
+    };
+  }
+  throw unsupported(inner, path);
+}
+
+/**
+ * JSON Schema (draft 2020-12) of the options of setup(), with the defaults
+ */
+export function generateJsonSchema(schema: z.ZodTypeAny = ConfigSchema, defaults: unknown = defaultConfig): string {
+  const root = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "highlight-undo config",
+    ...jsonSchemaOf(schema, defaults, []),
+  };
+  return `${JSON.stringify(root, null, 2)}\n`;
+}
+
+// Generated files, relative to the repository root
+export const generatedFiles: ReadonlyArray<{ path: string; generate: () => string }> = [
+  { path: "lua/highlight-undo/types.lua", generate: () => generateLuaTypes() },
+  { path: "lua/highlight-undo/defaults.lua", generate: () => generateLuaDefaults() },
+  { path: "schema/config.schema.json", generate: () => generateJsonSchema() },
+];
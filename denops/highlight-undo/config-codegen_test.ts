@@ -0,0 +1,32 @@
+import { assertEquals, assertThrows } from "./deps.ts";
+import { describe, it } from "./deps.ts";
+import { z } from "./deps.ts";
+import { generatedFiles, generateJsonSchema, generateLuaTypes } from "./config-codegen.ts";
+
+const root = new URL("../../", import.meta.url);
+
+describe("config codegen", () => {
+  for (const { path, generate } of generatedFiles) {
+    it(`should keep ${path} up to date`, async () => {
+      const checkedIn = await Deno.readTextFile(new URL(path, root));
+
+      assertEquals(checkedIn, generate(), `${path} is out of date, run \`deno task generate:config\``);
+    });
+  }
+
+  it("should name nested classes after their path", () => {
+    const schema = z.object({ signs: z.object({ text: z.object({ added: z.string().optional() }) }).optional() });
+
+    assertEquals(
+      generateLuaTypes(schema).split("\n").filter((line) => line.startsWith("---@class")),
+      ["---@class highlight-undo.Config", "---@class highlight-undo.Signs", "---@class highlight-undo.SignsText"],
+    );
+  });
+
+  it("should refuse schema types it cannot translate", () => {
+    const schema = z.object({ pattern: z.instanceof(RegExp) });
+
+    assertThrows(() => generateLuaTypes(schema), Error, "at pattern");
+    assertThrows(() => generateJsonSchema(schema, {}), Error, "at pattern");
+  });
+});
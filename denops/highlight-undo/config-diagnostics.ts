@@ -0,0 +1,238 @@
+// Config problems with their key, the value found and a fix to try
+
+import { z } from "./deps.ts";
+
+export type ConfigDiagnosticSeverity = "error" | "warning";
+
+export interface ConfigDiagnostic {
+  severity: ConfigDiagnosticSeverity;
+  // Dotted key, e.g. "threshold.line"
+  path: string;
+  message: string;
+  // What to write instead, e.g. the known key closest to a misspelled one
+  hint?: string;
+}
+
+// An option that still works for now, with the option replacing it
+export interface DeprecatedOption {
+  path: string;
+  replacement?: string;
+}
+
+// Renamed or retired options; a renamed one keeps working through its replacement
+export const DEPRECATED_OPTIONS: ReadonlyArray<DeprecatedOption> = [];
+
+export interface DiagnoseOptions {
+  deprecations?: ReadonlyArray<DeprecatedOption>;
+  // Unknown keys are errors instead of warnings
+  strict?: boolean;
+}
+
+/**
+ * Levenshtein distance between `a` and `b`
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Candidate closest to `word`, ignoring case, when it is close enough to be a typo
+ */
+export function suggest(word: string, candidates: ReadonlyArray<string>): string | undefined {
+  const limit = Math.max(1, Math.floor(word.length / 3));
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(word.toLowerCase(), candidate.toLowerCase());
+    if (distance <= limit && (best === undefined || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+  return best?.candidate;
+}
+
+function pathOf(path: ReadonlyArray<string | number>): string {
+  return path.length > 0 ? path.join(".") : "<root>";
+}
+
+function valueAt(value: unknown, path: ReadonlyArray<string | number>): unknown {
+  return path.reduce<unknown>((inner, key) => (inner as Record<string | number, unknown> | undefined)?.[key], value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Short rendering of a received value, e.g. `"abc"`, `0` or `{...}`
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return "nothing";
+  }
+  const json = JSON.stringify(value) ?? String(value);
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+}
+
+function unwrapOptional(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let inner = schema;
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+    inner = inner.unwrap();
+  }
+  return inner;
+}
+
+// Keys of `value` that `schema` does not know, which Zod would otherwise drop silently.
+// Warnings unless `strict`: a misspelled key must not keep the plugin from starting
+function unknownKeysOf(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  path: string[],
+  deprecated: ReadonlySet<string>,
+  strict: boolean,
+): ConfigDiagnostic[] {
+  const inner = unwrapOptional(schema);
+  if (inner instanceof z.ZodRecord && isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      unknownKeysOf(inner.valueSchema, item, [...path, key], deprecated, strict)
+    );
+  }
+  if (!(inner instanceof z.ZodObject) || !isPlainObject(value)) {
+    return [];
+  }
+
+  const shape = inner.shape as z.ZodRawShape;
+  const known = Object.keys(shape);
+  return Object.entries(value).flatMap(([key, item]): ConfigDiagnostic[] => {
+    const keyPath = [...path, key];
+    if (key in shape) {
+      return unknownKeysOf(shape[key], item, keyPath, deprecated, strict);
+    }
+    if (deprecated.has(pathOf(keyPath))) {
+      return [];
+    }
+    const candidate = suggest(key, known);
+    return [{
+      severity: strict ? "error" : "warning",
+      path: pathOf(keyPath),
+      message: strict ? "unknown key" : "unknown key, ignored",
+      ...(candidate ? { hint: `did you mean "${candidate}"?` } : {}),
+    }];
+  });
+}
+
+function diagnosticOf(issue: z.ZodIssue, input: unknown): ConfigDiagnostic {
+  const path = pathOf(issue.path);
+  const received = describeValue(valueAt(input, issue.path));
+  switch (issue.code) {
+    case "invalid_type":
+      return {
+        severity: "error",
+        path,
+        message: issue.received === "undefined"
+          ? `missing, expected ${issue.expected}`
+          : `expected ${issue.expected}, received ${received}`,
+      };
+    case "invalid_enum_value": {
+      const options = issue.options.map(String);
+      const candidate = suggest(String(issue.received), options);
+      return {
+        severity: "error",
+        path,
+        message: `expected one of ${options.map((option) => `"${option}"`).join(", ")}, received ${received}`,
+        ...(candidate ? { hint: `did you mean "${candidate}"?` } : {}),
+      };
+    }
+    default:
+      return { severity: "error", path, message: `${issue.message}, received ${received}` };
+  }
+}
+
+/**
+ * Move options with a replacement to the new key unless it is set, and warn about every deprecated one
+ */
+function migrateDeprecated(
+  userConfig: unknown,
+  deprecations: ReadonlyArray<DeprecatedOption>,
+): { config: unknown; warnings: ConfigDiagnostic[] } {
+  const warnings: ConfigDiagnostic[] = [];
+  let config = userConfig;
+  for (const { path, replacement } of deprecations) {
+    const keys = path.split(".");
+    const value = valueAt(config, keys);
+    if (value === undefined) {
+      continue;
+    }
+
+    warnings.push({
+      severity: "warning",
+      path,
+      message: "deprecated",
+      ...(replacement ? { hint: `use "${replacement}" instead` } : {}),
+    });
+    if (replacement && valueAt(config, replacement.split(".")) === undefined) {
+      config = withValueAt(config, replacement.split("."), value);
+    }
+  }
+  return { config, warnings };
+}
+
+// Copy of `value` with `path` set to `item`
+function withValueAt(value: unknown, path: ReadonlyArray<string>, item: unknown): unknown {
+  if (path.length === 0) {
+    return item;
+  }
+  const object = isPlainObject(value) ? value : {};
+  const [key, ...rest] = path;
+  return { ...object, [key]: withValueAt(object[key], rest, item) };
+}
+
+/**
+ * Check `userConfig` against `schema`: invalid values are errors, unknown keys are warnings
+ * (errors when `strict`) and dropped from the returned config, deprecated options are warnings.
+ * Also returns the config with deprecated options migrated.
+ */
+export function diagnoseConfig(
+  userConfig: unknown,
+  schema: z.ZodTypeAny,
+  { deprecations = DEPRECATED_OPTIONS, strict = false }: DiagnoseOptions = {},
+): { config: unknown; diagnostics: ConfigDiagnostic[] } {
+  const { config, warnings } = migrateDeprecated(userConfig, deprecations);
+  const deprecated = new Set(deprecations.map((option) => option.path));
+
+  const result = schema.safeParse(config);
+  const issues = result.success ? [] : result.error.issues.map((issue) => diagnosticOf(issue, config));
+
+  return {
+    config: result.success ? result.data : config,
+    diagnostics: [...unknownKeysOf(schema, config, [], deprecated, strict), ...issues, ...warnings],
+  };
+}
+
+/**
+ * One line per diagnostic, e.g. `threshhold: unknown key, ignored (did you mean "threshold"?)`
+ */
+export function formatDiagnostic(diagnostic: ConfigDiagnostic): string {
+  return `${diagnostic.path}: ${diagnostic.message}${diagnostic.hint ? ` (${diagnostic.hint})` : ""}`;
+}
+
+/**
+ * Chunks for nvim_echo, one highlighted line per diagnostic
+ */
+export function diagnosticChunks(diagnostics: ReadonlyArray<ConfigDiagnostic>): Array<[string, string]> {
+  return diagnostics.flatMap((diagnostic, i): Array<[string, string]> => [
+    [i === 0 ? "" : "\n", "Normal"],
+    ["[highlight-undo] ", "Title"],
+    diagnostic.severity === "error" ? ["Error", "ErrorMsg"] : ["Warning", "WarningMsg"],
+    [" in ", "Normal"],
+    [diagnostic.path, "Identifier"],
+    [`: ${diagnostic.message}`, "Normal"],
+    ...(diagnostic.hint ? [[` (${diagnostic.hint})`, "Question"] as [string, string]] : []),
+  ]);
+}
@@ -0,0 +1,114 @@
+import { assertEquals } from "./deps.ts";
+import { describe, it } from "./deps.ts";
+import { z } from "./deps.ts";
+import { diagnoseConfig, diagnosticChunks, editDistance, suggest } from "./config-diagnostics.ts";
+import { ConfigSchema, defaultConfig, PartialConfigSchema } from "./config-schema.ts";
+
+describe("config diagnostics", () => {
+  it("should measure the edit distance", () => {
+    assertEquals(editDistance("threshold", "threshold"), 0);
+    assertEquals(editDistance("threshhold", "threshold"), 1);
+    assertEquals(editDistance("durtaion", "duration"), 2);
+    assertEquals(editDistance("", "abc"), 3);
+  });
+
+  it("should suggest only keys close enough to be a typo", () => {
+    assertEquals(suggest("threshhold", ["duration", "threshold"]), "threshold");
+    assertEquals(suggest("maxdepth", ["maxDepth", "staleTimeout"]), "maxDepth");
+    assertEquals(suggest("colour", ["duration", "threshold"]), undefined);
+  });
+
+  it("should warn about unknown keys with a suggestion and drop them", () => {
+    const { config, diagnostics } = diagnoseConfig(
+      { ...defaultConfig, threshhold: { line: 1 }, queue: { maxdepth: 3 }, filetypes: { json: { duraton: 10 } } },
+      ConfigSchema,
+    );
+
+    assertEquals(config, { ...defaultConfig, queue: {}, filetypes: { json: {} } });
+
+    assertEquals(diagnostics, [
+      {
+        severity: "warning",
+        path: "queue.maxdepth",
+        message: "unknown key, ignored",
+        hint: 'did you mean "maxDepth"?',
+      },
+      { severity: "warning", path: "threshhold", message: "unknown key, ignored", hint: 'did you mean "threshold"?' },
+      {
+        severity: "warning",
+        path: "filetypes.json.duraton",
+        message: "unknown key, ignored",
+        hint: 'did you mean "duration"?',
+      },
+    ]);
+  });
+
+  it("should reject unknown keys in strict mode", () => {
+    const { diagnostics } = diagnoseConfig({ threshhold: { line: 1 } }, PartialConfigSchema, { strict: true });
+
+    assertEquals(diagnostics, [
+      { severity: "error", path: "threshhold", message: "unknown key", hint: 'did you mean "threshold"?' },
+    ]);
+  });
+
+  it("should report the expected and received value of a type error", () => {
+    const { diagnostics } = diagnoseConfig({ duration: "fast", diff: { algorithm: "mayers" } }, PartialConfigSchema);
+
+    assertEquals(diagnostics, [
+      { severity: "error", path: "duration", message: 'expected number, received "fast"' },
+      {
+        severity: "error",
+        path: "diff.algorithm",
+        message: 'expected one of "myers", "patience", "histogram", received "mayers"',
+        hint: 'did you mean "myers"?',
+      },
+    ]);
+  });
+
+  it("should warn about deprecated options and move them to their replacement", () => {
+    const schema = z.object({ duration: z.number().optional() });
+    const deprecations = [{ path: "timeout", replacement: "duration" }, { path: "legacy" }];
+
+    const { config, diagnostics } = diagnoseConfig({ timeout: 300, legacy: true }, schema, { deprecations });
+
+    assertEquals(config, { duration: 300 });
+    assertEquals(diagnostics, [
+      { severity: "warning", path: "timeout", message: "deprecated", hint: 'use "duration" instead' },
+      { severity: "warning", path: "legacy", message: "deprecated" },
+    ]);
+  });
+
+  it("should keep the replacement when both the deprecated option and its replacement are set", () => {
+    const schema = z.object({ duration: z.number().optional() });
+
+    const { config } = diagnoseConfig({ timeout: 300, duration: 100 }, schema, {
+      deprecations: [{ path: "timeout", replacement: "duration" }],
+    });
+
+    assertEquals(config, { duration: 100 });
+  });
+
+  it("should highlight each part of a diagnostic", () => {
+    assertEquals(
+      diagnosticChunks([
+        { severity: "error", path: "duration", message: 'expected number, received "fast"' },
+        { severity: "warning", path: "threshhold", message: "unknown key, ignored", hint: 'did you mean "threshold"?' },
+      ]),
+      [
+        ["", "Normal"],
+        ["[highlight-undo] ", "Title"],
+        ["Error", "ErrorMsg"],
+        [" in ", "Normal"],
+        ["duration", "Identifier"],
+        [': expected number, received "fast"', "Normal"],
+        ["\n", "Normal"],
+        ["[highlight-undo] ", "Title"],
+        ["Warning", "WarningMsg"],
+        [" in ", "Normal"],
+        ["threshhold", "Identifier"],
+        [": unknown key, ignored", "Normal"],
+        [' (did you mean "threshold"?)', "Question"],
+      ],
+    );
+  });
+});
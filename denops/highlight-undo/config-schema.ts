@@ -1,11 +1,14 @@
 // Unified configuration schema for TypeScript and Lua using Zod
 import { z } from "./deps.ts";
+import { DEFAULT_GRANULARITY, DEFAULT_STRATEGIES, DEFAULT_THRESHOLDS } from "./core/heuristic-strategy.ts";
 
 // Define the schema using Zod
-export const ConfigSchema = z.object({
+const BaseConfigSchema = z.object({
   mappings: z.object({
     undo: z.string(),
     redo: z.string(),
+    earlier: z.string().optional().describe("Mapping for chronological undo (`g-`), empty string to disable"),
+    later: z.string().optional().describe("Mapping for chronological redo (`g+`), empty string to disable"),
   }),
   enabled: z.object({
     added: z.boolean(),
@@ -14,18 +17,71 @@ export const ConfigSchema = z.object({
   highlight: z.object({
     added: z.string(),
     removed: z.string(),
+    moved: z.string().optional().describe("Lines moved elsewhere, shown at their origin and destination"),
+    changed: z.string().optional().describe("Text that replaced other text, shown after the command"),
   }),
   threshold: z.object({
     line: z.number().positive(),
     char: z.number().positive(),
   }),
   duration: z.number().positive(),
+  clear: z.enum(["timer", "cursor_moved", "insert_enter", "next_change", "manual"]).optional()
+    .describe("When highlights are cleared"),
+  display: z.object({
+    removed: z.enum(["delay", "virtual"]).optional()
+      .describe("Delay the command to show removed text, or run it and show the text as virtual text"),
+  }).optional(),
+  animation: z.object({
+    enabled: z.boolean().optional().describe("Fade highlights out over `duration` instead of removing them at once"),
+    steps: z.number().int().positive().optional().describe("Number of intermediate colors"),
+    easing: z.enum(["linear", "ease", "ease-in", "ease-out", "ease-in-out"]).optional(),
+    // Cubic bezier control points, x values must stay within 0..1
+    curve: z.tuple([z.number().min(0).max(1), z.number(), z.number().min(0).max(1), z.number()]).optional()
+      .describe("Cubic bezier control points {x1, y1, x2, y2}, overrides `easing`"),
+  }).optional(),
+  jump: z.object({
+    target: z.enum(["none", "first", "nearest"]).optional()
+      .describe("Move the cursor to the first highlighted change, or the one nearest to it"),
+    indicator: z.enum(["none", "virtual_text", "notify"]).optional()
+      .describe("Report highlighted changes outside the window"),
+  }).optional(),
+  signs: z.object({
+    enabled: z.boolean().optional().describe("Mark changed lines in the sign column"),
+    // Sign text is one or two display cells
+    text: z.object({
+      added: z.string().min(1).max(2).optional(),
+      removed: z.string().min(1).max(2).optional(),
+      changed: z.string().min(1).max(2).optional(),
+      moved: z.string().min(1).max(2).optional(),
+    }).optional(),
+    numhl: z.boolean().optional().describe("Also highlight the line number"),
+    linehl: z.boolean().optional().describe("Also highlight the whole line"),
+  }).optional(),
+  windows: z.object({
+    sync: z.enum(["none", "scroll", "flash"]).optional()
+      .describe("What other windows showing the buffer do when it changes"),
+  }).optional(),
+  queue: z.object({
+    coalesce: z.enum(["none", "cancel", "merge"]).optional()
+      .describe("What a new undo/redo does to the earlier ones still waiting"),
+    maxDepth: z.number().int().positive().optional().describe(
+      'Pending commands that keep their highlight, with `coalesce` "none" only',
+    ),
+    staleTimeout: z.number().int().positive().optional()
+      .describe("Commands waiting longer than this (ms) run without highlight"),
+    overflow: z.enum(["drop-oldest", "drop-newest", "run-without-highlight"]).optional()
+      .describe('Which commands lose their highlight beyond `maxDepth`, with `coalesce` "none" only'),
+  }).optional(),
+  strict: z.boolean().optional().describe("Reject the config on unknown keys instead of warning about them"),
   debug: z.boolean().optional(),
   logFile: z.string().optional(),
   rangeAdjustments: z.object({
     adjustWordBoundaries: z.boolean().optional(),
     handleWhitespace: z.boolean().optional(),
   }).optional(),
+  diff: z.object({
+    algorithm: z.enum(["myers", "patience", "histogram"]).optional(),
+  }).optional(),
   heuristics: z.object({
     enabled: z.boolean().optional(),
     thresholds: z.object({
@@ -39,9 +95,23 @@ export const ConfigSchema = z.object({
       medium: z.enum(["character", "word", "line", "block"]).optional(),
       large: z.enum(["character", "word", "line", "block"]).optional(),
     }).optional(),
+    granularity: z.object({
+      tiny: z.enum(["character", "word"]).optional(),
+      small: z.enum(["character", "word"]).optional(),
+      medium: z.enum(["character", "word"]).optional(),
+      large: z.enum(["character", "word"]).optional(),
+    }).optional(),
   }).optional(),
 });
 
+// Settings that can be overridden per 'filetype', on top of the global ones
+export const FiletypeConfigSchema = BaseConfigSchema.deepPartial();
+
+export const ConfigSchema = BaseConfigSchema.extend({
+  filetypes: z.record(z.string(), FiletypeConfigSchema).optional()
+    .describe("Settings per 'filetype', merged over the global ones"),
+});
+
 // Infer the TypeScript type from the Zod schema
 export type Config = z.infer<typeof ConfigSchema>;
 
@@ -50,6 +120,8 @@ export const defaultConfig: Config = {
   mappings: {
     undo: "u",
     redo: "<C-r>",
+    earlier: "g-",
+    later: "g+",
   },
   enabled: {
     added: true,
@@ -58,29 +130,59 @@ export const defaultConfig: Config = {
   highlight: {
     added: "DiffAdd",
     removed: "DiffDelete",
+    moved: "DiffChange",
+    changed: "DiffText",
   },
   threshold: {
     line: 50,
     char: 1500,
   },
   duration: 200,
+  clear: "timer",
+  display: {
+    removed: "delay",
+  },
+  animation: {
+    enabled: false,
+    steps: 10,
+    easing: "ease-out",
+  },
+  jump: {
+    target: "none",
+    indicator: "none",
+  },
+  signs: {
+    enabled: false,
+    text: {
+      added: "+",
+      removed: "-",
+      changed: "~",
+      moved: ">",
+    },
+    numhl: false,
+    linehl: false,
+  },
+  windows: {
+    sync: "none",
+  },
+  queue: {
+    coalesce: "cancel",
+    maxDepth: 10,
+    staleTimeout: 5000,
+    overflow: "drop-oldest",
+  },
   rangeAdjustments: {
     adjustWordBoundaries: true,
     handleWhitespace: true,
   },
+  diff: {
+    algorithm: "myers",
+  },
   heuristics: {
     enabled: true,
-    thresholds: {
-      tiny: 5,
-      small: 20,
-      medium: 100,
-    },
-    strategies: {
-      tiny: "character",
-      small: "word",
-      medium: "line",
-      large: "block",
-    },
+    thresholds: { ...DEFAULT_THRESHOLDS },
+    strategies: { ...DEFAULT_STRATEGIES },
+    granularity: { ...DEFAULT_GRANULARITY },
   },
 };
 
@@ -1,110 +1,139 @@
-// Auto-generated config module using unified schema
+// Parsing and merging of the config, and the settings derived from it
 import { Config, ConfigSchema, defaultConfig, PartialConfig, PartialConfigSchema } from "./config-schema.ts";
 import { z } from "./deps.ts";
-import { ChangeSize, DisplayStrategy } from "./core/heuristic-strategy.ts";
+import { type ConfigDiagnostic, diagnoseConfig, formatDiagnostic } from "./config-diagnostics.ts";
+import type { DiffOptions } from "./core/diff-optimizer.ts";
+import type { ChangeType } from "./core/range-computer.ts";
+import type { SignOptions } from "./core/sign-markers.ts";
 
 export type { Config, PartialConfig };
 
-export function validateConfig(userConfig: unknown): Config {
-  try {
-    return ConfigSchema.parse(userConfig);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const issues = error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
-      throw new Error(`Config validation failed: ${issues}`);
-    }
-    throw error;
+/**
+ * Config rejected by the schema, with a diagnostic for every problem found
+ */
+export class ConfigValidationError extends Error {
+  constructor(readonly diagnostics: ReadonlyArray<ConfigDiagnostic>) {
+    const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error");
+    super(`Config validation failed: ${errors.map(formatDiagnostic).join(", ")}`);
+    this.name = "ConfigValidationError";
   }
 }
 
-export function mergeConfig(userConfig: unknown, base?: Config): Config {
-  const defaults = base ?? defaultConfig;
+// Value parsed by `schema`, throwing ConfigValidationError on any error; warnings go to `warnings`
+function parseWithDiagnostics<T>(
+  schema: z.ZodType<T>,
+  userConfig: unknown,
+  warnings: ConfigDiagnostic[] | undefined,
+  strict: boolean,
+): T {
+  const { config, diagnostics } = diagnoseConfig(userConfig, schema, { strict });
+  if (diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+    throw new ConfigValidationError(diagnostics);
+  }
+  warnings?.push(...diagnostics);
+  return config as T;
+}
 
-  // Parse the partial config
-  let partialConfig: PartialConfig;
-  try {
-    partialConfig = PartialConfigSchema.parse(userConfig ?? {});
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const issues = error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
-      throw new Error(`Config validation failed: ${issues}`);
-    }
-    throw error;
+/**
+ * Parse a full config. Unknown keys are dropped and reported to `warnings` when given,
+ * or rejected with `strict = true`. Deprecated options are migrated and reported likewise.
+ */
+export function validateConfig(userConfig: unknown, warnings?: ConfigDiagnostic[]): Config {
+  const strict = isPlainObject(userConfig) && userConfig.strict === true;
+  return parseWithDiagnostics(ConfigSchema, userConfig, warnings, strict);
+}
+
+// Object shape of `schema` once optional wrappers are removed, null for any other type
+function objectShapeOf(schema: z.ZodTypeAny): z.ZodRawShape | null {
+  let inner = schema;
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+    inner = inner.unwrap();
   }
+  return inner instanceof z.ZodObject ? inner.shape : null;
+}
 
-  // Deep merge with defaults
-  const merged: Config = {
-    mappings: {
-      undo: partialConfig.mappings?.undo ?? defaults.mappings.undo,
-      redo: partialConfig.mappings?.redo ?? defaults.mappings.redo,
-    },
-    enabled: {
-      added: partialConfig.enabled?.added ?? defaults.enabled.added,
-      removed: partialConfig.enabled?.removed ?? defaults.enabled.removed,
-    },
-    highlight: {
-      added: partialConfig.highlight?.added ?? defaults.highlight.added,
-      removed: partialConfig.highlight?.removed ?? defaults.highlight.removed,
-    },
-    threshold: {
-      line: partialConfig.threshold?.line ?? defaults.threshold.line,
-      char: partialConfig.threshold?.char ?? defaults.threshold.char,
-    },
-    duration: partialConfig.duration ?? defaults.duration,
-  };
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
-  // Add optional fields if present
-  if (partialConfig.debug !== undefined || defaults.debug !== undefined) {
-    merged.debug = partialConfig.debug ?? defaults.debug;
+/**
+ * Merge `partial` over `base` following `schema`: objects key by key,
+ * everything else (scalars, tuples, records) replaced as a whole
+ */
+function mergeBySchema(schema: z.ZodTypeAny, base: unknown, partial: unknown): unknown {
+  if (partial === undefined) {
+    return base;
   }
-  if (partialConfig.logFile !== undefined || defaults.logFile !== undefined) {
-    merged.logFile = partialConfig.logFile ?? defaults.logFile;
+
+  const shape = objectShapeOf(schema);
+  if (shape === null || !isPlainObject(partial)) {
+    return partial;
   }
 
-  // Handle rangeAdjustments
-  if (partialConfig.rangeAdjustments !== undefined || defaults.rangeAdjustments !== undefined) {
-    merged.rangeAdjustments = {
-      adjustWordBoundaries: partialConfig.rangeAdjustments?.adjustWordBoundaries ??
-        defaults.rangeAdjustments?.adjustWordBoundaries ?? true,
-      handleWhitespace: partialConfig.rangeAdjustments?.handleWhitespace ??
-        defaults.rangeAdjustments?.handleWhitespace ?? true,
-    };
+  const baseObject = isPlainObject(base) ? base : {};
+  const merged: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(shape)) {
+    const value = mergeBySchema(field, baseObject[key], partial[key]);
+    if (value !== undefined) {
+      merged[key] = value;
+    }
   }
+  return merged;
+}
 
-  // Handle heuristics
-  if (partialConfig.heuristics !== undefined || defaults.heuristics !== undefined) {
-    merged.heuristics = {
-      enabled: partialConfig.heuristics?.enabled ??
-        defaults.heuristics?.enabled ?? true,
-    };
+export function mergeConfig(userConfig: unknown, base?: Config, warnings?: ConfigDiagnostic[]): Config {
+  const defaults = base ?? defaultConfig;
+  const strict = isPlainObject(userConfig) && typeof userConfig.strict === "boolean"
+    ? userConfig.strict
+    : defaults.strict === true;
+  const partialConfig: PartialConfig = parseWithDiagnostics(PartialConfigSchema, userConfig ?? {}, warnings, strict);
 
-    // Merge thresholds
-    if (partialConfig.heuristics?.thresholds !== undefined || defaults.heuristics?.thresholds !== undefined) {
-      merged.heuristics.thresholds = {
-        tiny: partialConfig.heuristics?.thresholds?.tiny ??
-          defaults.heuristics?.thresholds?.tiny ?? 5,
-        small: partialConfig.heuristics?.thresholds?.small ??
-          defaults.heuristics?.thresholds?.small ?? 20,
-        medium: partialConfig.heuristics?.thresholds?.medium ??
-          defaults.heuristics?.thresholds?.medium ?? 100,
-      };
-    }
+  // Deep merge with defaults along the schema, so every field is carried over
+  return validateConfig(mergeBySchema(ConfigSchema, defaults, partialConfig));
+}
 
-    // Merge strategies
-    if (partialConfig.heuristics?.strategies !== undefined || defaults.heuristics?.strategies !== undefined) {
-      merged.heuristics.strategies = {
-        [ChangeSize.Tiny]: (partialConfig.heuristics?.strategies?.tiny ??
-          defaults.heuristics?.strategies?.tiny ?? "character") as DisplayStrategy,
-        [ChangeSize.Small]: (partialConfig.heuristics?.strategies?.small ??
-          defaults.heuristics?.strategies?.small ?? "word") as DisplayStrategy,
-        [ChangeSize.Medium]: (partialConfig.heuristics?.strategies?.medium ??
-          defaults.heuristics?.strategies?.medium ?? "line") as DisplayStrategy,
-        [ChangeSize.Large]: (partialConfig.heuristics?.strategies?.large ??
-          defaults.heuristics?.strategies?.large ?? "block") as DisplayStrategy,
-      };
-    }
+/**
+ * Highlight group for each change type
+ */
+export function highlightGroupsOf(config: Config): Record<ChangeType, string> {
+  return {
+    added: config.highlight.added,
+    removed: config.highlight.removed,
+    moved: config.highlight.moved ?? defaultConfig.highlight.moved!,
+    changed: config.highlight.changed ?? defaultConfig.highlight.changed!,
+  };
+}
+
+/**
+ * Sign column settings, null when signs are disabled
+ */
+export function signOptionsOf(config: Config): SignOptions | null {
+  if (!config.signs?.enabled) {
+    return null;
   }
 
-  // Validate the merged config
-  return ConfigSchema.parse(merged);
+  const groups = highlightGroupsOf(config);
+  const defaults = defaultConfig.signs!;
+  const text = config.signs.text;
+  return {
+    text: {
+      added: text?.added ?? defaults.text!.added!,
+      removed: text?.removed ?? defaults.text!.removed!,
+      changed: text?.changed ?? defaults.text!.changed!,
+      moved: text?.moved ?? defaults.text!.moved!,
+    },
+    groups,
+    numhl: config.signs.numhl ?? defaults.numhl!,
+    linehl: config.signs.linehl ?? defaults.linehl!,
+  };
+}
+
+/**
+ * Options for IDiffOptimizer.calculateDiff derived from the config
+ */
+export function diffOptionsOf(config: Config): DiffOptions {
+  return {
+    algorithm: config.diff?.algorithm,
+    heuristics: config.heuristics,
+  };
 }
@@ -1,7 +1,53 @@
 import { assertEquals, assertThrows } from "./deps.ts";
 import { describe, it } from "./deps.ts";
-import { mergeConfig, validateConfig } from "./config.ts";
-import { defaultConfig } from "./config-schema.ts";
+import { z } from "./deps.ts";
+import { ConfigValidationError, highlightGroupsOf, mergeConfig, signOptionsOf, validateConfig } from "./config.ts";
+import type { ConfigDiagnostic } from "./config-diagnostics.ts";
+import { ConfigSchema, defaultConfig } from "./config-schema.ts";
+
+type Leaf = { path: string[]; value: unknown };
+
+// A valid value for a leaf of the schema that differs from `current`
+function sampleOf(schema: z.ZodTypeAny, current: unknown): unknown {
+  if (schema instanceof z.ZodBoolean) {
+    return current !== true;
+  }
+  if (schema instanceof z.ZodNumber) {
+    return typeof current === "number" ? current + 1 : 1;
+  }
+  if (schema instanceof z.ZodString) {
+    return current === "#" ? "=" : "#";
+  }
+  if (schema instanceof z.ZodEnum) {
+    return (schema.options as string[]).find((option) => option !== current);
+  }
+  if (schema instanceof z.ZodTuple) {
+    return [0.25, 0.1, 0.25, 1];
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { markdown: { duration: 1 } };
+  }
+  throw new Error(`No sample for ${schema.constructor.name}, add one for the new field type`);
+}
+
+// Every leaf of the schema, with a sample that differs from the value in `current`
+function leavesOf(schema: z.ZodTypeAny, current: unknown, path: string[] = []): Leaf[] {
+  let inner = schema;
+  while (inner instanceof z.ZodOptional) {
+    inner = inner.unwrap();
+  }
+  if (inner instanceof z.ZodObject) {
+    return Object.entries(inner.shape as z.ZodRawShape).flatMap(([key, field]) =>
+      leavesOf(field, (current as Record<string, unknown> | undefined)?.[key], [...path, key])
+    );
+  }
+  return [{ path, value: sampleOf(inner, current) }];
+}
+
+const nest = ({ path, value }: Leaf): unknown => path.reduceRight<unknown>((inner, key) => ({ [key]: inner }), value);
+
+const valueAt = (config: unknown, path: string[]): unknown =>
+  path.reduce<unknown>((inner, key) => (inner as Record<string, unknown> | undefined)?.[key], config);
 
 describe("validateConfig", () => {
   it("should validate a correct config", () => {
@@ -63,6 +109,40 @@ describe("validateConfig", () => {
       "Config validation failed:",
     );
   });
+
+  it("should drop unknown keys with a warning", () => {
+    const warnings: ConfigDiagnostic[] = [];
+
+    const config = validateConfig({ ...defaultConfig, durration: 300 }, warnings);
+
+    assertEquals("durration" in config, false);
+    assertEquals(warnings, [
+      { severity: "warning", path: "durration", message: "unknown key, ignored", hint: 'did you mean "duration"?' },
+    ]);
+  });
+
+  it("should reject unknown keys in strict mode", () => {
+    assertThrows(
+      () => validateConfig({ ...defaultConfig, strict: true, durration: 300 }),
+      ConfigValidationError,
+      'durration: unknown key (did you mean "duration"?)',
+    );
+    // A strict base config also rejects unknown keys of the options merged over it
+    const strict = mergeConfig({ strict: true });
+    assertThrows(() => mergeConfig({ durration: 300 }, strict), ConfigValidationError, "durration");
+    assertEquals(mergeConfig({ strict: false, durration: 300 }, strict).strict, false);
+  });
+
+  it("should list every problem in the error of an invalid config", () => {
+    const error = assertThrows(
+      () => validateConfig({ ...defaultConfig, duration: "fast", durration: 300 }),
+      ConfigValidationError,
+      'duration: expected number, received "fast"',
+    );
+
+    assertEquals(error.diagnostics.map((diagnostic) => diagnostic.path), ["durration", "duration"]);
+    assertThrows(() => mergeConfig({ signs: { enabled: "yes" } }), ConfigValidationError, "signs.enabled");
+  });
 });
 
 describe("mergeConfig", () => {
@@ -154,4 +234,151 @@ describe("mergeConfig", () => {
     assertEquals(result.rangeAdjustments?.handleWhitespace, true);
     assertEquals(result.heuristics?.enabled, false);
   });
+
+  it("should merge the diff algorithm", () => {
+    assertEquals(mergeConfig({}).diff?.algorithm, "myers");
+    assertEquals(mergeConfig({ diff: { algorithm: "patience" } }).diff?.algorithm, "patience");
+    assertThrows(
+      () => mergeConfig({ diff: { algorithm: "minimal" } }),
+      Error,
+      "Config validation failed:",
+    );
+  });
+
+  it("should merge how removals are displayed", () => {
+    assertEquals(mergeConfig({}).display?.removed, "delay");
+    assertEquals(mergeConfig({ display: { removed: "virtual" } }).display?.removed, "virtual");
+    assertThrows(
+      () => mergeConfig({ display: { removed: "inline" } }),
+      Error,
+      "Config validation failed:",
+    );
+  });
+
+  it("should merge the animation settings", () => {
+    assertEquals(mergeConfig({}).animation, { enabled: false, steps: 10, easing: "ease-out" });
+    assertEquals(mergeConfig({ animation: { enabled: true, curve: [0.4, 0, 0.2, 1] } }).animation, {
+      enabled: true,
+      steps: 10,
+      easing: "ease-out",
+      curve: [0.4, 0, 0.2, 1],
+    });
+    assertThrows(
+      () => mergeConfig({ animation: { curve: [2, 0, 0.2, 1] } }),
+      Error,
+      "Config validation failed:",
+    );
+  });
+
+  it("should merge sign settings and reject signs wider than two cells", () => {
+    const result = mergeConfig({ signs: { enabled: true, text: { changed: "≈" }, numhl: true } });
+
+    assertEquals(result.signs, {
+      enabled: true,
+      text: { added: "+", removed: "-", changed: "≈", moved: ">" },
+      numhl: true,
+      linehl: false,
+    });
+    assertThrows(
+      () => mergeConfig({ signs: { text: { added: "add" } } }),
+      Error,
+      "Config validation failed:",
+    );
+  });
+
+  it("should merge window sync and reject unknown modes", () => {
+    assertEquals(mergeConfig({}).windows, { sync: "none" });
+    assertEquals(mergeConfig({ windows: { sync: "flash" } }).windows, { sync: "flash" });
+    assertThrows(
+      () => mergeConfig({ windows: { sync: "blink" } }),
+      Error,
+      "Config validation failed:",
+    );
+  });
+
+  it("should keep per-filetype overrides and validate them", () => {
+    const filetypes = { markdown: { heuristics: { strategies: { medium: "word" as const } } } };
+
+    assertEquals(mergeConfig({}).filetypes, undefined);
+    assertEquals(mergeConfig({ filetypes }).filetypes, filetypes);
+    assertEquals(mergeConfig({ duration: 100 }, mergeConfig({ filetypes })).filetypes, filetypes);
+    assertThrows(
+      () => validateConfig({ ...defaultConfig, filetypes: { json: { duration: 0 } } }),
+      Error,
+      "filetypes.json.duration",
+    );
+  });
+
+  it("should merge the queue policy", () => {
+    assertEquals(mergeConfig({}).queue, {
+      coalesce: "cancel",
+      maxDepth: 10,
+      staleTimeout: 5000,
+      overflow: "drop-oldest",
+    });
+    assertEquals(mergeConfig({ queue: { coalesce: "merge", overflow: "drop-newest" } }).queue, {
+      coalesce: "merge",
+      maxDepth: 10,
+      staleTimeout: 5000,
+      overflow: "drop-newest",
+    });
+    assertThrows(
+      () => mergeConfig({ queue: { coalesce: "drop" } }),
+      Error,
+      "Config validation failed:",
+    );
+    assertThrows(
+      () => mergeConfig({ queue: { maxDepth: 0 } }),
+      Error,
+      "Config validation failed:",
+    );
+  });
+
+  it("should carry over every key of the schema", () => {
+    const leaves = leavesOf(ConfigSchema, defaultConfig);
+
+    for (const leaf of leaves) {
+      assertEquals(valueAt(mergeConfig(nest(leaf)), leaf.path), leaf.value, leaf.path.join("."));
+    }
+  });
+
+  it("should keep every key of the base config", () => {
+    const leaves = leavesOf(ConfigSchema, defaultConfig);
+    const full = leaves.reduce((config, leaf) => mergeConfig(nest(leaf), config), defaultConfig);
+
+    for (const leaf of leaves) {
+      assertEquals(valueAt(full, leaf.path), leaf.value, leaf.path.join("."));
+    }
+    assertEquals(mergeConfig({}, full), full);
+  });
+
+  it("should merge the diff granularity per change size", () => {
+    const result = mergeConfig({ heuristics: { granularity: { small: "character" } } });
+
+    assertEquals(result.heuristics?.granularity, {
+      tiny: "character",
+      small: "character",
+      medium: "word",
+      large: "word",
+    });
+  });
+});
+
+describe("derived settings", () => {
+  it("should fall back to the default highlight groups and sign text", () => {
+    const config = validateConfig({
+      ...defaultConfig,
+      highlight: { added: "Added", removed: "Removed" },
+      signs: { enabled: true, text: { added: "A" } },
+    });
+
+    assertEquals(highlightGroupsOf(config), {
+      added: "Added",
+      removed: "Removed",
+      moved: defaultConfig.highlight.moved,
+      changed: defaultConfig.highlight.changed,
+    });
+    assertEquals(signOptionsOf(config)?.text, { ...defaultConfig.signs?.text, added: "A" });
+    assertEquals(signOptionsOf(config)?.numhl, defaultConfig.signs?.numhl);
+  });
 });
@@ -0,0 +1,103 @@
+// Color ramps for fading highlights out
+
+export type Easing = "linear" | "ease" | "ease-in" | "ease-out" | "ease-in-out";
+
+// Cubic bezier control points [x1, y1, x2, y2], as in CSS cubic-bezier()
+export type BezierCurve = [number, number, number, number];
+
+// Prefix of the generated highlight groups, the Lua side strips it to find the original group
+export const FADE_GROUP_PREFIX = "HighlightUndoFade";
+
+const EASING_CURVES: Record<Exclude<Easing, "linear">, BezierCurve> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  "ease-in": [0.42, 0, 1, 1],
+  "ease-out": [0, 0, 0.58, 1],
+  "ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+function cubicBezier([x1, y1, x2, y2]: BezierCurve): (t: number) => number {
+  // Polynomial coefficients of x(s) and y(s) with P0 = (0, 0) and P3 = (1, 1)
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const slopeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  // Solve x(s) = t, Newton first and bisection when the slope is too flat
+  const solve = (t: number) => {
+    let s = t;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - t;
+      if (Math.abs(error) < 1e-6) {
+        return s;
+      }
+      const slope = slopeX(s);
+      if (Math.abs(slope) < 1e-6) {
+        break;
+      }
+      s -= error / slope;
+    }
+
+    let lo = 0;
+    let hi = 1;
+    s = t;
+    while (hi - lo > 1e-6) {
+      if (sampleX(s) < t) {
+        lo = s;
+      } else {
+        hi = s;
+      }
+      s = (lo + hi) / 2;
+    }
+    return s;
+  };
+
+  return (t) => t <= 0 ? 0 : t >= 1 ? 1 : sampleY(solve(t));
+}
+
+/**
+ * Easing function for `easing`, or for `curve` when it is given
+ */
+export function easingOf(easing: Easing = "ease-out", curve?: BezierCurve): (t: number) => number {
+  if (curve) {
+    return cubicBezier(curve);
+  }
+  return easing === "linear" ? (t) => t : cubicBezier(EASING_CURVES[easing]);
+}
+
+/**
+ * Blend two 24-bit RGB colors, `ratio` 0 gives `from` and 1 gives `to`
+ */
+export function blendColor(from: number, to: number, ratio: number): number {
+  const channel = (shift: number) => {
+    const a = (from >> shift) & 0xff;
+    const b = (to >> shift) & 0xff;
+    return Math.round(a + (b - a) * ratio);
+  };
+  return (channel(16) << 16) | (channel(8) << 8) | channel(0);
+}
+
+/**
+ * Colors for each of `steps` fade steps from `from` towards `to`.
+ * The last step stays short of `to`, clearing the highlight completes the fade.
+ */
+export function computeColorRamp(
+  from: number,
+  to: number,
+  steps: number,
+  ease: (t: number) => number,
+): number[] {
+  return Array.from({ length: steps }, (_, i) => blendColor(from, to, ease((i + 1) / (steps + 1))));
+}
+
+/**
+ * Name of the highlight group used for `group` at fade step `step` (1-based)
+ */
+export function fadeGroupName(group: string, step: number): string {
+  return `${FADE_GROUP_PREFIX}${step}_${group}`;
+}
@@ -0,0 +1,46 @@
+import { assertEquals } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import { blendColor, computeColorRamp, easingOf, fadeGroupName } from "./animation.ts";
+
+describe("animation", () => {
+  describe("easingOf", () => {
+    it("should map the ends to 0 and 1", () => {
+      for (const easing of ["linear", "ease", "ease-in", "ease-out", "ease-in-out"] as const) {
+        const ease = easingOf(easing);
+        assertEquals(ease(0), 0);
+        assertEquals(ease(1), 1);
+      }
+    });
+
+    it("should follow the shape of the curve", () => {
+      assertEquals(easingOf("linear")(0.3), 0.3);
+      assertEquals(easingOf("ease-in")(0.5) < 0.5, true);
+      assertEquals(easingOf("ease-out")(0.5) > 0.5, true);
+      assertEquals(Math.abs(easingOf("ease-in-out")(0.5) - 0.5) < 1e-4, true);
+    });
+
+    it("should prefer a custom curve over the easing name", () => {
+      const ease = easingOf("ease-in", [0, 0, 1, 1]);
+      assertEquals(Math.abs(ease(0.25) - 0.25) < 1e-4, true);
+    });
+  });
+
+  describe("blendColor", () => {
+    it("should blend each channel", () => {
+      assertEquals(blendColor(0x000000, 0xffffff, 0), 0x000000);
+      assertEquals(blendColor(0x000000, 0xffffff, 1), 0xffffff);
+      assertEquals(blendColor(0x204060, 0x406080, 0.5), 0x305070);
+    });
+  });
+
+  describe("computeColorRamp", () => {
+    it("should step towards the target without reaching it", () => {
+      const ramp = computeColorRamp(0x000000, 0x0000c8, 3, easingOf("linear"));
+      assertEquals(ramp, [0x000032, 0x000064, 0x000096]);
+    });
+  });
+
+  it("should name fade groups after the original group", () => {
+    assertEquals(fadeGroupName("DiffAdd", 3), "HighlightUndoFade3_DiffAdd");
+  });
+});
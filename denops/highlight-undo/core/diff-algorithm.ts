@@ -0,0 +1,352 @@
+// Token-sequence diff algorithms (Myers, patience, histogram)
+
+import type { Diff } from "../deps.ts";
+
+export type DiffAlgorithmName = "myers" | "patience" | "histogram";
+
+export const DIFF_ALGORITHMS: ReadonlyArray<DiffAlgorithmName> = ["myers", "patience", "histogram"];
+
+export interface IDiffAlgorithm {
+  readonly name: DiffAlgorithmName;
+  /**
+   * Diff two token sequences (lines including their "\n", or words).
+   * Returns jsdiff-style changes whose `count` is the number of tokens;
+   * inside a hunk removed tokens come before added ones.
+   */
+  diff(before: ReadonlyArray<string>, after: ReadonlyArray<string>): Diff.Change[];
+}
+
+enum OpKind {
+  Equal,
+  Removed,
+  Added,
+}
+
+type Op = { kind: OpKind; token: string };
+
+type Emit = (kind: OpKind, token: string) => void;
+
+type RangeDiff = (
+  a: ReadonlyArray<string>,
+  aLo: number,
+  aHi: number,
+  b: ReadonlyArray<string>,
+  bLo: number,
+  bHi: number,
+  emit: Emit,
+) => void;
+
+// Lines occurring more often than this are not used as histogram anchors (same limit as git)
+const MAX_HISTOGRAM_CHAIN = 64;
+
+function emitRange(tokens: ReadonlyArray<string>, lo: number, hi: number, kind: OpKind, emit: Emit): void {
+  for (let i = lo; i < hi; i++) {
+    emit(kind, tokens[i]);
+  }
+}
+
+/**
+ * Strip the common prefix and suffix, emitting the prefix immediately.
+ * Returns the remaining bounds and the suffix length to emit after the middle part.
+ */
+function trimCommon(
+  a: ReadonlyArray<string>,
+  aLo: number,
+  aHi: number,
+  b: ReadonlyArray<string>,
+  bLo: number,
+  bHi: number,
+  emit: Emit,
+): { aLo: number; aHi: number; bLo: number; bHi: number; suffix: number } {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    emit(OpKind.Equal, a[aLo]);
+    aLo++;
+    bLo++;
+  }
+
+  let suffix = 0;
+  while (aLo < aHi - suffix && bLo < bHi - suffix && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) {
+    suffix++;
+  }
+
+  return { aLo, aHi: aHi - suffix, bLo, bHi: bHi - suffix, suffix };
+}
+
+// Myers O(ND) shortest edit script
+const myersRange: RangeDiff = (a, aLo, aHi, b, bLo, bHi, emit) => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+
+  if (n === 0 || m === 0) {
+    emitRange(a, aLo, aHi, OpKind.Removed, emit);
+    emitRange(b, bLo, bHi, OpKind.Added, emit);
+    return;
+  }
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -(d + 1)..(d + 1) before step d
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: Op[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: OpKind.Equal, token: a[aLo + x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ kind: OpKind.Added, token: b[bLo + y - 1] });
+      } else {
+        ops.push({ kind: OpKind.Removed, token: a[aLo + x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  for (let i = ops.length - 1; i >= 0; i--) {
+    emit(ops[i].kind, ops[i].token);
+  }
+};
+
+function countTokens(tokens: ReadonlyArray<string>, lo: number, hi: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = lo; i < hi; i++) {
+    counts.set(tokens[i], (counts.get(tokens[i]) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Longest increasing subsequence of `pairs` by their b index (pairs are sorted by a index)
+function longestIncreasingSubsequence(pairs: ReadonlyArray<[number, number]>): Array<[number, number]> {
+  const tails: number[] = [];
+  const previous = new Array<number>(pairs.length).fill(-1);
+
+  for (let i = 0; i < pairs.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[tails[mid]][1] < pairs[i][1]) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    if (lo > 0) {
+      previous[i] = tails[lo - 1];
+    }
+    tails[lo] = i;
+  }
+
+  const result: Array<[number, number]> = [];
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+    result.push(pairs[i]);
+  }
+  return result.reverse();
+}
+
+// Patience diff: anchor on tokens that are unique on both sides, Myers in between
+const patienceRange: RangeDiff = (a, aLo0, aHi0, b, bLo0, bHi0, emit) => {
+  const { aLo, aHi, bLo, bHi, suffix } = trimCommon(a, aLo0, aHi0, b, bLo0, bHi0, emit);
+
+  if (aLo < aHi && bLo < bHi) {
+    const aCounts = countTokens(a, aLo, aHi);
+    const bCounts = countTokens(b, bLo, bHi);
+    const bIndex = new Map<string, number>();
+    for (let j = bLo; j < bHi; j++) {
+      if (bCounts.get(b[j]) === 1) {
+        bIndex.set(b[j], j);
+      }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    for (let i = aLo; i < aHi; i++) {
+      const j = bIndex.get(a[i]);
+      if (j !== undefined && aCounts.get(a[i]) === 1) {
+        pairs.push([i, j]);
+      }
+    }
+
+    const anchors = longestIncreasingSubsequence(pairs);
+    if (anchors.length === 0) {
+      myersRange(a, aLo, aHi, b, bLo, bHi, emit);
+    } else {
+      let i = aLo;
+      let j = bLo;
+      for (const [ai, bj] of anchors) {
+        patienceRange(a, i, ai, b, j, bj, emit);
+        emit(OpKind.Equal, a[ai]);
+        i = ai + 1;
+        j = bj + 1;
+      }
+      patienceRange(a, i, aHi, b, j, bHi, emit);
+    }
+  } else {
+    emitRange(a, aLo, aHi, OpKind.Removed, emit);
+    emitRange(b, bLo, bHi, OpKind.Added, emit);
+  }
+
+  emitRange(a, aHi, aHi + suffix, OpKind.Equal, emit);
+};
+
+// Histogram diff: split on the longest common region around the rarest shared token
+const histogramRange: RangeDiff = (a, aLo0, aHi0, b, bLo0, bHi0, emit) => {
+  const { aLo, aHi, bLo, bHi, suffix } = trimCommon(a, aLo0, aHi0, b, bLo0, bHi0, emit);
+
+  if (aLo < aHi && bLo < bHi) {
+    const occurrences = new Map<string, number[]>();
+    for (let i = aLo; i < aHi; i++) {
+      const list = occurrences.get(a[i]);
+      if (list) {
+        list.push(i);
+      } else {
+        occurrences.set(a[i], [i]);
+      }
+    }
+
+    let best: { aStart: number; bStart: number; length: number; count: number } | null = null;
+    for (let j = bLo; j < bHi; j++) {
+      const list = occurrences.get(b[j]);
+      if (!list || list.length > MAX_HISTOGRAM_CHAIN) {
+        continue;
+      }
+
+      for (const i of list) {
+        let aStart = i;
+        let bStart = j;
+        while (aStart > aLo && bStart > bLo && a[aStart - 1] === b[bStart - 1]) {
+          aStart--;
+          bStart--;
+        }
+        let aEnd = i + 1;
+        let bEnd = j + 1;
+        let count = list.length;
+        while (aEnd < aHi && bEnd < bHi && a[aEnd] === b[bEnd]) {
+          count = Math.min(count, occurrences.get(a[aEnd])?.length ?? count);
+          aEnd++;
+          bEnd++;
+        }
+
+        const length = aEnd - aStart;
+        if (!best || count < best.count || (count === best.count && length > best.length)) {
+          best = { aStart, bStart, length, count };
+        }
+      }
+    }
+
+    if (!best) {
+      myersRange(a, aLo, aHi, b, bLo, bHi, emit);
+    } else {
+      histogramRange(a, aLo, best.aStart, b, bLo, best.bStart, emit);
+      emitRange(a, best.aStart, best.aStart + best.length, OpKind.Equal, emit);
+      histogramRange(a, best.aStart + best.length, aHi, b, best.bStart + best.length, bHi, emit);
+    }
+  } else {
+    emitRange(a, aLo, aHi, OpKind.Removed, emit);
+    emitRange(b, bLo, bHi, OpKind.Added, emit);
+  }
+
+  emitRange(a, aHi, aHi + suffix, OpKind.Equal, emit);
+};
+
+/**
+ * Collect ops into jsdiff-style changes.
+ * Removed and added tokens between two equal runs form one hunk: removed first, then added.
+ */
+function toChanges(run: (emit: Emit) => void): Diff.Change[] {
+  const changes: Diff.Change[] = [];
+  let equal: string[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flushHunk = () => {
+    if (removed.length > 0) {
+      changes.push({ value: removed.join(""), count: removed.length, removed: true });
+      removed = [];
+    }
+    if (added.length > 0) {
+      changes.push({ value: added.join(""), count: added.length, added: true });
+      added = [];
+    }
+  };
+  const flushEqual = () => {
+    if (equal.length > 0) {
+      changes.push({ value: equal.join(""), count: equal.length });
+      equal = [];
+    }
+  };
+
+  run((kind, token) => {
+    if (kind === OpKind.Equal) {
+      flushHunk();
+      equal.push(token);
+    } else {
+      flushEqual();
+      (kind === OpKind.Removed ? removed : added).push(token);
+    }
+  });
+  flushHunk();
+  flushEqual();
+
+  return changes;
+}
+
+function createAlgorithm(name: DiffAlgorithmName, range: RangeDiff): IDiffAlgorithm {
+  return {
+    name,
+    diff: (before, after) =>
+      toChanges((emit) => {
+        const { aLo, aHi, bLo, bHi, suffix } = trimCommon(before, 0, before.length, after, 0, after.length, emit);
+        range(before, aLo, aHi, after, bLo, bHi, emit);
+        emitRange(before, aHi, aHi + suffix, OpKind.Equal, emit);
+      }),
+  };
+}
+
+const algorithms: Record<DiffAlgorithmName, IDiffAlgorithm> = {
+  myers: createAlgorithm("myers", myersRange),
+  patience: createAlgorithm("patience", patienceRange),
+  histogram: createAlgorithm("histogram", histogramRange),
+};
+
+export function getDiffAlgorithm(name: DiffAlgorithmName = "myers"): IDiffAlgorithm {
+  return algorithms[name];
+}
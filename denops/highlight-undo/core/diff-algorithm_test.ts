@@ -0,0 +1,80 @@
+import { assertEquals } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import type { Diff } from "../deps.ts";
+import { DIFF_ALGORITHMS, getDiffAlgorithm } from "./diff-algorithm.ts";
+
+const lines = (...values: string[]) => values.map((value) => value + "\n");
+
+const hunks = (changes: ReadonlyArray<Diff.Change>) =>
+  changes.map((c) => `${c.added ? "+" : c.removed ? "-" : "="}${c.value}`);
+
+const rebuild = (changes: ReadonlyArray<Diff.Change>, skip: "added" | "removed") =>
+  changes.filter((c) => !c[skip]).map((c) => c.value).join("");
+
+describe("diff-algorithm", () => {
+  it("should reconstruct both sides with every algorithm", () => {
+    let seed = 1;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const alphabet = lines("{", "}", "", "foo();", "bar();", "return;");
+
+    for (let round = 0; round < 50; round++) {
+      const before = Array.from({ length: 12 }, () => alphabet[Math.floor(random() * alphabet.length)]);
+      const after = before.filter(() => random() > 0.3);
+      after.splice(Math.floor(random() * after.length), 0, ...lines("baz();", "}"));
+
+      for (const name of DIFF_ALGORITHMS) {
+        const changes = getDiffAlgorithm(name).diff(before, after);
+        assertEquals(rebuild(changes, "added"), before.join(""), name);
+        assertEquals(rebuild(changes, "removed"), after.join(""), name);
+      }
+    }
+  });
+
+  it("should put removed tokens before added ones inside a hunk", () => {
+    for (const name of DIFF_ALGORITHMS) {
+      const changes = getDiffAlgorithm(name).diff(lines("a", "b", "c"), lines("a", "x", "c"));
+      assertEquals(hunks(changes), ["=a\n", "-b\n", "+x\n", "=c\n"], name);
+      assertEquals(changes.map((c) => c.count), [1, 1, 1, 1]);
+    }
+  });
+
+  it("should handle empty inputs", () => {
+    for (const name of DIFF_ALGORITHMS) {
+      const algorithm = getDiffAlgorithm(name);
+      assertEquals(algorithm.diff([], []), []);
+      assertEquals(hunks(algorithm.diff([], lines("a"))), ["+a\n"]);
+      assertEquals(hunks(algorithm.diff(lines("a"), [])), ["-a\n"]);
+    }
+  });
+
+  describe("on repeated braces", () => {
+    const before = lines("start();", "  cleanup();", "}", "}", "}", "}", "start();", "}");
+    const after = lines("start();", "}", "}", "}", "start();");
+
+    it("should find a minimal but scattered script with myers", () => {
+      assertEquals(hunks(getDiffAlgorithm("myers").diff(before, after)), [
+        "=start();\n",
+        "-  cleanup();\n",
+        "=}\n}\n}\n",
+        "-}\n",
+        "=start();\n",
+        "-}\n",
+      ]);
+    });
+
+    it("should keep the unique lines anchored with patience and histogram", () => {
+      const expected = [
+        "=start();\n",
+        "-  cleanup();\n}\n",
+        "=}\n}\n}\nstart();\n",
+        "-}\n",
+      ];
+      assertEquals(hunks(getDiffAlgorithm("patience").diff(before, after)), expected);
+      assertEquals(hunks(getDiffAlgorithm("histogram").diff(before, after)), expected);
+    });
+  });
+
+  it("should default to myers", () => {
+    assertEquals(getDiffAlgorithm().name, "myers");
+  });
+});
@@ -1,9 +1,14 @@
 // Optimized diff calculation
 
-import { Diff, diffChars, diffLines } from "../deps.ts";
+import { Diff, diffChars } from "../deps.ts";
+import { type DiffAlgorithmName, getDiffAlgorithm, type IDiffAlgorithm } from "./diff-algorithm.ts";
+import { DiffGranularity, type HeuristicConfig, selectDiffGranularity } from "./heuristic-strategy.ts";
+
+// Whole lines removed in one place and added verbatim elsewhere carry `moved` on both changes
+export type DiffChange = Diff.Change & { moved?: boolean };
 
 export interface DiffResult {
-  changes: Diff.Change[];
+  changes: DiffChange[];
   lineInfo: {
     aboveLine: number;
     belowLine: number;
@@ -15,24 +20,327 @@ export interface IDiffOptimizer {
     before: string,
     after: string,
     threshold: { line: number; char: number },
+    options?: DiffOptions,
   ): DiffResult | null;
   clearCache(): void;
+  getStats(): DiffCacheStats;
+}
+
+export interface DiffOptions {
+  // Line diff algorithm for the changed middle part (default: myers)
+  algorithm?: DiffAlgorithmName;
+  // Size thresholds and per-size granularity (character or word) for changed hunks
+  heuristics?: HeuristicConfig;
+}
+
+export interface DiffCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  maxSize: number;
+}
+
+// The changes of a result hold the text of the buffer, `size` counts it as before and after together
+interface CacheEntry {
+  result: DiffResult;
+  size: number;
+}
+
+// 53-bit hash over the whole string (cyrb53)
+function hashString(str: string, seed = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// Hunks larger than this are highlighted as whole lines instead of being diffed further
+const MAX_CHAR_DIFF_HUNK_SIZE = 20000;
+
+type LineChange = { count: number; added?: boolean; removed?: boolean };
+
+// Identifiers and numbers, runs of spaces/tabs, newlines, any other single character
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+|[^\S\n]+|\n|[^]/gu;
+
+/**
+ * Split text into word-diff tokens; joining the tokens gives the text back
+ */
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+// Number of characters that differ once the common prefix and suffix are removed
+function countChangedChars(removed: string, added: string): number {
+  const maxCommon = Math.min(removed.length, added.length);
+  let start = 0;
+  while (start < maxCommon && removed[start] === added[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < maxCommon - start && removed[removed.length - 1 - end] === added[added.length - 1 - end]) {
+    end++;
+  }
+  return removed.length + added.length - 2 * (start + end);
+}
+
+// Split text into lines, each keeping its trailing "\n"
+function splitLinesWithTerminator(text: string): string[] {
+  const lines = text.split("\n").map((line) => line + "\n");
+  const last = lines.pop()!;
+  if (last !== "\n") {
+    lines.push(last.slice(0, -1));
+  }
+  return lines;
+}
+
+// Append a change, merging it into the previous one when both have the same kind
+function pushChange(changes: Diff.Change[], change: Diff.Change): void {
+  if (change.value === "") {
+    return;
+  }
+
+  const last = changes[changes.length - 1];
+  if (last && !!last.added === !!change.added && !!last.removed === !!change.removed) {
+    last.value += change.value;
+    last.count = last.value.length;
+    return;
+  }
+
+  changes.push({ ...change, count: change.value.length });
+}
+
+function pushHunk(
+  changes: Diff.Change[],
+  removed: string,
+  added: string,
+  algorithm: IDiffAlgorithm,
+  heuristics?: HeuristicConfig,
+): void {
+  if (removed === "" || added === "" || removed.length + added.length > MAX_CHAR_DIFF_HUNK_SIZE) {
+    pushChange(changes, { value: removed, removed: true });
+    pushChange(changes, { value: added, added: true });
+    return;
+  }
+
+  const granularity = selectDiffGranularity(countChangedChars(removed, added), heuristics);
+  const hunkChanges = granularity === DiffGranularity.Word
+    ? algorithm.diff(tokenize(removed), tokenize(added))
+    : diffChars(removed, added);
+
+  for (const change of hunkChanges) {
+    pushChange(changes, change);
+  }
+}
+
+/**
+ * Two-level diff: trim the common prefix/suffix lines, diff the remaining lines,
+ * then diff characters (or word tokens, see `heuristics.granularity`) only inside the changed hunks.
+ * Returns char/token-level changes over the whole text and the line-level changes they come from.
+ */
+function diffHierarchical(
+  before: string,
+  after: string,
+  algorithm: IDiffAlgorithm,
+  heuristics?: HeuristicConfig,
+): { changes: DiffChange[]; lineChanges: LineChange[] } {
+  const beforeLines = splitLinesWithTerminator(before);
+  const afterLines = splitLinesWithTerminator(after);
+  const maxCommon = Math.min(beforeLines.length, afterLines.length);
+
+  let prefix = 0;
+  while (prefix < maxCommon && beforeLines[prefix] === afterLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    beforeLines[beforeLines.length - 1 - suffix] === afterLines[afterLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const changes: DiffChange[] = [];
+  const lineChanges: LineChange[] = [{ count: prefix }];
+  pushChange(changes, { value: beforeLines.slice(0, prefix).join("") });
+
+  const middle = algorithm.diff(
+    beforeLines.slice(prefix, beforeLines.length - suffix),
+    afterLines.slice(prefix, afterLines.length - suffix),
+  );
+
+  let removed = "";
+  let added = "";
+  for (const change of middle) {
+    lineChanges.push({ count: change.count ?? 0, added: change.added, removed: change.removed });
+
+    if (change.removed) {
+      removed += change.value;
+    } else if (change.added) {
+      added += change.value;
+    } else {
+      pushHunk(changes, removed, added, algorithm, heuristics);
+      removed = added = "";
+      pushChange(changes, { value: change.value });
+    }
+  }
+  pushHunk(changes, removed, added, algorithm, heuristics);
+
+  lineChanges.push({ count: suffix });
+  pushChange(changes, { value: beforeLines.slice(beforeLines.length - suffix).join("") });
+
+  markMovedBlocks(changes);
+
+  return { changes, lineChanges };
+}
+
+// Changes that start at a line boundary of their side of the diff and end with a newline
+function wholeLineChanges(changes: ReadonlyArray<DiffChange>): Set<DiffChange> {
+  const wholeLines = new Set<DiffChange>();
+  let beforeAtLineStart = true;
+  let afterAtLineStart = true;
+
+  for (const change of changes) {
+    const atLineStart = change.added ? afterAtLineStart : beforeAtLineStart;
+    if (atLineStart && change.value.endsWith("\n")) {
+      wholeLines.add(change);
+    }
+    if (change.value === "") {
+      continue;
+    }
+    const endsLine = change.value.endsWith("\n");
+    if (!change.added) {
+      beforeAtLineStart = endsLine;
+    }
+    if (!change.removed) {
+      afterAtLineStart = endsLine;
+    }
+  }
+  return wholeLines;
 }
 
-export function createDiffOptimizer(maxCacheEntries = 100): IDiffOptimizer {
-  const cache = new Map<string, DiffResult>();
+/**
+ * Tag removed and added hunks with identical text as moved.
+ * Only hunks without a counterpart (pure removals/additions of whole lines) qualify,
+ * each removal pairs with at most one addition.
+ */
+function markMovedBlocks(changes: DiffChange[]): void {
+  const wholeLines = wholeLineChanges(changes);
+  const removals = new Map<string, DiffChange[]>();
 
-  function getCacheKey(before: string, after: string): string {
-    // Simple hash for cache key
-    const hash = (str: string) => {
-      let h = 0;
-      for (let i = 0; i < Math.min(str.length, 100); i++) {
-        h = ((h << 5) - h) + str.charCodeAt(i);
-        h |= 0;
+  changes.forEach((change, i) => {
+    if (change.removed && !changes[i + 1]?.added && wholeLines.has(change) && change.value.trim() !== "") {
+      const list = removals.get(change.value) ?? [];
+      list.push(change);
+      removals.set(change.value, list);
+    }
+  });
+
+  changes.forEach((change, i) => {
+    if (change.added && !changes[i - 1]?.removed && wholeLines.has(change)) {
+      const origin = removals.get(change.value)?.shift();
+      if (origin) {
+        origin.moved = true;
+        change.moved = true;
       }
-      return h;
-    };
-    return `${hash(before)}_${hash(after)}`;
+    }
+  });
+}
+
+// Range of changed lines, in line numbers of the text after the change
+function computeLineInfo(lineChanges: ReadonlyArray<LineChange>): DiffResult["lineInfo"] {
+  let aboveLine = 1;
+  let belowLine = 1;
+  let currentLine = 1;
+
+  for (const change of lineChanges) {
+    if (change.added || change.removed) {
+      if (aboveLine === 1 || currentLine < aboveLine) {
+        aboveLine = currentLine;
+      }
+      if (currentLine > belowLine) {
+        belowLine = currentLine;
+      }
+      // For multi-line changes, update belowLine to include all affected lines
+      if (change.count) {
+        const endLine = currentLine + change.count - 1;
+        if (endLine > belowLine) {
+          belowLine = endLine;
+        }
+      }
+    }
+    // Only increment currentLine for non-removed changes
+    if (!change.removed && change.count) {
+      currentLine += change.count;
+    }
+  }
+
+  return { aboveLine, belowLine };
+}
+
+export function createDiffOptimizer(maxCacheEntries = 100, maxCacheSize = 10 * 1024 * 1024): IDiffOptimizer {
+  // Map iteration order is the recency order: the first key is the least recently used
+  const cache = new Map<string, CacheEntry>();
+  let cacheSize = 0;
+  let hits = 0;
+  let misses = 0;
+
+  function getCacheKey(
+    before: string,
+    after: string,
+    threshold: { line: number; char: number },
+    options: DiffOptions,
+  ): string {
+    return [
+      hashString(before),
+      before.length,
+      hashString(after),
+      after.length,
+      threshold.line,
+      threshold.char,
+      options.algorithm ?? "myers",
+      JSON.stringify(options.heuristics ?? null),
+    ].join("_");
+  }
+
+  // Two 53-bit hashes and both lengths make a collision too unlikely to keep the texts for comparison
+  function getCached(key: string): DiffResult | null {
+    const entry = cache.get(key);
+    if (!entry) {
+      misses++;
+      return null;
+    }
+
+    hits++;
+    cache.delete(key);
+    cache.set(key, entry);
+    return entry.result;
+  }
+
+  function deleteCached(key: string): void {
+    cacheSize -= cache.get(key)?.size ?? 0;
+    cache.delete(key);
+  }
+
+  // Evict the least recently used entries beyond `maxCacheEntries` or `maxCacheSize` characters,
+  // the newest entry stays even when it is larger on its own
+  function setCached(key: string, entry: CacheEntry): void {
+    deleteCached(key);
+    cache.set(key, entry);
+    cacheSize += entry.size;
+    while (cache.size > maxCacheEntries || (cacheSize > maxCacheSize && cache.size > 1)) {
+      const leastRecentKey = cache.keys().next().value;
+      if (leastRecentKey === undefined) {
+        break;
+      }
+      deleteCached(leastRecentKey);
+    }
   }
 
   function isSimpleInsertion(before: string, after: string): boolean {
@@ -76,10 +384,11 @@ export function createDiffOptimizer(maxCacheEntries = 100): IDiffOptimizer {
   function handleSimpleDeletion(before: string, after: string): DiffResult {
     let changes: Diff.Change[];
     let position: number;
+    let removed: string;
 
     if (before.startsWith(after)) {
       // Deletion at end
-      const removed = before.substring(after.length);
+      removed = before.substring(after.length);
       position = after.length;
       changes = [
         { value: after, count: after.length },
@@ -87,7 +396,7 @@ export function createDiffOptimizer(maxCacheEntries = 100): IDiffOptimizer {
       ];
     } else {
       // Deletion at beginning
-      const removed = before.substring(0, before.length - after.length);
+      removed = before.substring(0, before.length - after.length);
       position = 0;
       changes = [
         { value: removed, count: removed.length, removed: true },
@@ -98,7 +407,7 @@ export function createDiffOptimizer(maxCacheEntries = 100): IDiffOptimizer {
     const lineNumber = after.substring(0, position).split("\n").length;
     return {
       changes,
-      lineInfo: { aboveLine: lineNumber, belowLine: lineNumber },
+      lineInfo: { aboveLine: lineNumber, belowLine: lineNumber + removed.split("\n").length },
     };
   }
 
@@ -106,14 +415,16 @@ export function createDiffOptimizer(maxCacheEntries = 100): IDiffOptimizer {
     before: string,
     after: string,
     threshold: { line: number; char: number },
+    options: DiffOptions = {},
   ): DiffResult | null {
     // Quick checks
     if (before === after) {
       return null;
     }
 
-    const cacheKey = getCacheKey(before, after);
-    const cached = cache.get(cacheKey);
+    const algorithm = getDiffAlgorithm(options.algorithm);
+    const cacheKey = getCacheKey(before, after, threshold, options);
+    const cached = getCached(cacheKey);
     if (cached) {
       return cached;
     }
@@ -141,59 +452,36 @@ export function createDiffOptimizer(maxCacheEntries = 100): IDiffOptimizer {
     }
 
     // Full diff calculation
-    const changes = diffChars(before, after);
-    const lineChanges = diffLines(before, after);
-
-    // Calculate the actual range of changed lines
-    let aboveLine = 1;
-    let belowLine = 1;
-    let currentLine = 1;
-
-    for (const change of lineChanges) {
-      if (change.added || change.removed) {
-        if (aboveLine === 1 || currentLine < aboveLine) {
-          aboveLine = currentLine;
-        }
-        if (currentLine > belowLine) {
-          belowLine = currentLine;
-        }
-        // For multi-line changes, update belowLine to include all affected lines
-        if (change.count) {
-          const endLine = currentLine + change.count - 1;
-          if (endLine > belowLine) {
-            belowLine = endLine;
-          }
-        }
-      }
-      // Only increment currentLine for non-removed changes
-      if (!change.removed && change.count) {
-        currentLine += change.count;
-      }
-    }
+    const { changes, lineChanges } = diffHierarchical(before, after, algorithm, options.heuristics);
+    const { aboveLine, belowLine } = computeLineInfo(lineChanges);
 
     const result: DiffResult = {
       changes,
       lineInfo: { aboveLine, belowLine },
     };
 
-    // Update cache
-    cache.set(cacheKey, result);
-    if (cache.size > maxCacheEntries) {
-      const firstKey = cache.keys().next().value;
-      if (firstKey !== undefined) {
-        cache.delete(firstKey);
-      }
-    }
+    setCached(cacheKey, { result, size: before.length + after.length });
 
     return result;
   }
 
   function clearCache(): void {
     cache.clear();
+    cacheSize = 0;
+  }
+
+  function getStats(): DiffCacheStats {
+    return {
+      hits,
+      misses,
+      size: cache.size,
+      maxSize: maxCacheEntries,
+    };
   }
 
   return {
     calculateDiff,
     clearCache,
+    getStats,
   };
 }
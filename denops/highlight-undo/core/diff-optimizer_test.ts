@@ -1,6 +1,6 @@
 import { assertEquals } from "../deps.ts";
 import { describe, it } from "../deps.ts";
-import { createDiffOptimizer } from "./diff-optimizer.ts";
+import { createDiffOptimizer, tokenize } from "./diff-optimizer.ts";
 
 describe("DiffOptimizer", () => {
   it("should return null for identical strings", () => {
@@ -191,4 +191,163 @@ line8`;
     assertEquals(result!.lineInfo.aboveLine, 3);
     assertEquals(result!.lineInfo.belowLine, 6);
   });
+
+  describe("line-first diff", () => {
+    const threshold = { line: 50, char: 1500 };
+    const join = (
+      changes: ReadonlyArray<{ value: string; added?: boolean; removed?: boolean }>,
+      skip: "added" | "removed",
+    ) => changes.filter((c) => !c[skip]).map((c) => c.value).join("");
+
+    it("should reconstruct both texts from the changes", () => {
+      const optimizer = createDiffOptimizer();
+      const before = "alpha\nbeta\ngamma\ndelta\nepsilon\n";
+      const after = "alpha\nBETA\ngamma\ninserted\ndelta\n";
+
+      const result = optimizer.calculateDiff(before, after, threshold);
+
+      assertEquals(result !== null, true);
+      assertEquals(join(result!.changes, "added"), before);
+      assertEquals(join(result!.changes, "removed"), after);
+    });
+
+    it("should only char-diff inside changed hunks", () => {
+      const optimizer = createDiffOptimizer();
+      const lines = Array.from({ length: 10000 }, (_, i) => `line ${i}`);
+      const before = lines.join("\n") + "\n";
+      const after = [...lines.slice(0, 5000), "line 5000 edited", ...lines.slice(5001)].join("\n") + "\n";
+
+      const result = optimizer.calculateDiff(before, after, threshold);
+
+      assertEquals(result !== null, true);
+      assertEquals(result!.changes.filter((c) => c.added).map((c) => c.value), [" edited"]);
+      assertEquals(result!.changes.some((c) => c.removed), false);
+      assertEquals(result!.lineInfo, { aboveLine: 5001, belowLine: 5001 });
+      assertEquals(join(result!.changes, "removed"), after);
+    });
+
+    it("should keep a missing trailing newline on the last line", () => {
+      const optimizer = createDiffOptimizer();
+      const result = optimizer.calculateDiff("a\nb\nc", "a\nx\nc", threshold);
+
+      assertEquals(result !== null, true);
+      assertEquals(join(result!.changes, "added"), "a\nb\nc");
+      assertEquals(join(result!.changes, "removed"), "a\nx\nc");
+      assertEquals(result!.lineInfo, { aboveLine: 2, belowLine: 2 });
+    });
+  });
+
+  describe("cache", () => {
+    const threshold = { line: 50, char: 1500 };
+    const header = "// ".repeat(50) + "\n";
+
+    it("should not mix up edits beyond the first 100 characters", () => {
+      const optimizer = createDiffOptimizer();
+      const before = `${header}foo\nbar\nbaz\n`;
+
+      const first = optimizer.calculateDiff(before, `${header}foo\nBAR\nbaz\n`, threshold);
+      const second = optimizer.calculateDiff(before, `${header}foo\nbar\nBAZ\n`, threshold);
+
+      assertEquals(first!.lineInfo, { aboveLine: 3, belowLine: 3 });
+      assertEquals(second!.lineInfo, { aboveLine: 4, belowLine: 4 });
+      assertEquals(optimizer.getStats().hits, 0);
+    });
+
+    it("should count hits and misses", () => {
+      const optimizer = createDiffOptimizer();
+      optimizer.calculateDiff("a\nb\n", "a\nc\n", threshold);
+      optimizer.calculateDiff("a\nb\n", "a\nc\n", threshold);
+
+      assertEquals(optimizer.getStats(), { hits: 1, misses: 1, size: 1, maxSize: 100 });
+    });
+
+    it("should evict the least recently used entry", () => {
+      const optimizer = createDiffOptimizer(2);
+      const first = optimizer.calculateDiff("a\nb\n", "a\nc\n", threshold);
+      optimizer.calculateDiff("d\ne\n", "d\nf\n", threshold);
+
+      // Touch the first entry so the second one is evicted
+      optimizer.calculateDiff("a\nb\n", "a\nc\n", threshold);
+      optimizer.calculateDiff("g\nh\n", "g\ni\n", threshold);
+
+      assertEquals(optimizer.calculateDiff("a\nb\n", "a\nc\n", threshold) === first, true);
+      assertEquals(optimizer.getStats().hits, 2);
+
+      optimizer.calculateDiff("d\ne\n", "d\nf\n", threshold);
+      assertEquals(optimizer.getStats().hits, 2);
+      assertEquals(optimizer.getStats().size, 2);
+    });
+
+    it("should evict entries beyond the size limit in characters", () => {
+      // Each entry holds 8 characters of text
+      const optimizer = createDiffOptimizer(100, 20);
+      optimizer.calculateDiff("a\nb\n", "a\nc\n", threshold);
+      optimizer.calculateDiff("d\ne\n", "d\nf\n", threshold);
+      optimizer.calculateDiff("g\nh\n", "g\ni\n", threshold);
+
+      assertEquals(optimizer.getStats().size, 2);
+      optimizer.calculateDiff("a\nb\n", "a\nc\n", threshold);
+      assertEquals(optimizer.getStats().hits, 0);
+    });
+  });
+
+  describe("word-level diff", () => {
+    const threshold = { line: 50, char: 1500 };
+    const before = "let x = 0;\nconst count = items.length;\nreturn x;\n";
+    const after = "let x = 0;\nconst total = items.length;\nreturn x;\n";
+
+    it("should split text into identifier, whitespace and punctuation tokens", () => {
+      assertEquals(tokenize("foo_1  = bar(2);\n"), ["foo_1", "  ", "=", " ", "bar", "(", "2", ")", ";", "\n"]);
+      assertEquals(tokenize("ä日本 x").join(""), "ä日本 x");
+    });
+
+    it("should replace whole tokens instead of interleaving letters", () => {
+      const optimizer = createDiffOptimizer();
+      const result = optimizer.calculateDiff(before, after, threshold);
+
+      assertEquals(result!.changes.filter((c) => c.removed).map((c) => c.value), ["count"]);
+      assertEquals(result!.changes.filter((c) => c.added).map((c) => c.value), ["total"]);
+    });
+
+    it("should keep character diffs when selected for the change size", () => {
+      const optimizer = createDiffOptimizer();
+      const result = optimizer.calculateDiff(before, after, threshold, {
+        heuristics: { granularity: { small: "character" } },
+      });
+
+      assertEquals(result!.changes.filter((c) => c.removed).length > 1, true);
+    });
+  });
+
+  describe("moved blocks", () => {
+    const threshold = { line: 50, char: 1500 };
+
+    it("should tag lines removed in one place and added verbatim elsewhere", () => {
+      const optimizer = createDiffOptimizer();
+      const result = optimizer.calculateDiff("a\nmove me\nb\nc\n", "a\nb\nc\nmove me\n", threshold);
+
+      const moved = result!.changes.filter((c) => c.moved);
+      assertEquals(moved.map((c) => [c.value, !!c.removed, !!c.added]), [
+        ["move me\n", true, false],
+        ["move me\n", false, true],
+      ]);
+    });
+
+    it("should not tag replacements or blank lines", () => {
+      const optimizer = createDiffOptimizer();
+      const replaced = optimizer.calculateDiff("a\nfoo\nb\nc\n", "a\nbar\nb\nc\nfoo\nx\n", threshold);
+      const blank = optimizer.calculateDiff("a\n\nb\nc\n", "a\nb\nc\n\n", threshold);
+
+      assertEquals(replaced!.changes.some((c) => c.moved), false);
+      assertEquals(blank!.changes.some((c) => c.moved), false);
+    });
+
+    it("should not tag edits inside a line that remove and add the same characters", () => {
+      const optimizer = createDiffOptimizer();
+      const result = optimizer.calculateDiff("let abc = 1\nx\nreturn pq\n", "let ac = 1\nx\nreturn pbq\n", threshold);
+
+      assertEquals(result!.changes.filter((c) => c.removed || c.added).map((c) => c.value), ["b", "b"]);
+      assertEquals(result!.changes.some((c) => c.moved), false);
+    });
+  });
 });
@@ -0,0 +1,83 @@
+// Removed text rendered as virtual text in the new buffer content
+
+import { getByteLength } from "./encoding.ts";
+import type { DiffChange } from "./diff-optimizer.ts";
+import { isPairedChange } from "./range-computer.ts";
+
+// Shown in place of line breaks inside inline ghost text
+export const INLINE_NEWLINE = "↵";
+
+export type GhostText =
+  | {
+    kind: "inline";
+    // 1-based line and 0-based byte column in the new text
+    lnum: number;
+    col: number;
+    text: string;
+    changeType: "removed" | "moved";
+  }
+  | {
+    kind: "lines";
+    // Whole removed lines, shown above or below `lnum` in the new text
+    lnum: number;
+    above: boolean;
+    lines: string[];
+    changeType: "removed" | "moved";
+  };
+
+/**
+ * Compute where removed text would have been in afterCode.
+ * Whole removed lines become virtual lines, anything else inline text at the removal point.
+ * Removals paired with a replacement are skipped, they are shown as "changed" ranges.
+ */
+export function computeGhostTexts(params: {
+  changes: ReadonlyArray<DiffChange>;
+  afterCode: string;
+}): GhostText[] {
+  const { changes, afterCode } = params;
+  const lines = afterCode.split("\n");
+  // Buffer text always ends with "\n", the empty string after it is not a line
+  const lineCount = Math.max(1, afterCode.endsWith("\n") ? lines.length - 1 : lines.length);
+
+  const ghostTexts: GhostText[] = [];
+  let afterIndex = 0;
+
+  for (const [i, change] of changes.entries()) {
+    if (!change.removed) {
+      afterIndex += change.value.length;
+      continue;
+    }
+    if (isPairedChange(changes, i) || change.value === "") {
+      continue;
+    }
+
+    const changeType = change.moved ? "moved" : "removed";
+    const lineStart = afterIndex === 0 ? 0 : afterCode.lastIndexOf("\n", afterIndex - 1) + 1;
+    const lnum = afterCode.substring(0, lineStart).split("\n").length;
+    const charCol = afterIndex - lineStart;
+    const lineText = lines[lnum - 1] ?? "";
+
+    if (charCol === 0 && change.value.endsWith("\n")) {
+      // Whole lines removed before line `lnum`, or after the last line
+      const removedLines = change.value.slice(0, -1).split("\n");
+      ghostTexts.push(
+        lnum > lineCount
+          ? { kind: "lines", lnum: lineCount, above: false, lines: removedLines, changeType }
+          : { kind: "lines", lnum, above: true, lines: removedLines, changeType },
+      );
+    } else if (charCol === lineText.length && change.value.startsWith("\n") && !change.value.endsWith("\n")) {
+      // Whole lines removed after line `lnum`, together with the line break before them
+      ghostTexts.push({ kind: "lines", lnum, above: false, lines: change.value.slice(1).split("\n"), changeType });
+    } else {
+      ghostTexts.push({
+        kind: "inline",
+        lnum,
+        col: getByteLength(lineText.substring(0, charCol)),
+        text: change.value.replaceAll("\n", INLINE_NEWLINE),
+        changeType,
+      });
+    }
+  }
+
+  return ghostTexts;
+}
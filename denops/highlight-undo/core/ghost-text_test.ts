@@ -0,0 +1,87 @@
+import { assertEquals } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import { computeGhostTexts } from "./ghost-text.ts";
+
+describe("computeGhostTexts", () => {
+  it("should show intra-line removals inline at the removal point", () => {
+    const ghostTexts = computeGhostTexts({
+      changes: [
+        { value: "hello ", count: 6 },
+        { value: "big ", count: 4, removed: true },
+        { value: "world\n", count: 6 },
+      ],
+      afterCode: "hello world\n",
+    });
+
+    assertEquals(ghostTexts, [{ kind: "inline", lnum: 1, col: 6, text: "big ", changeType: "removed" }]);
+  });
+
+  it("should use byte columns for multi-byte text", () => {
+    const ghostTexts = computeGhostTexts({
+      changes: [
+        { value: "あい", count: 2 },
+        { value: "う", count: 1, removed: true },
+        { value: "\n", count: 1 },
+      ],
+      afterCode: "あい\n",
+    });
+
+    assertEquals(ghostTexts.map((g) => g.kind === "inline" && g.col), [6]);
+  });
+
+  it("should show whole removed lines as virtual lines above the next line", () => {
+    const ghostTexts = computeGhostTexts({
+      changes: [
+        { value: "a\n", count: 2 },
+        { value: "b\nc\n", count: 4, removed: true },
+        { value: "d\n", count: 2 },
+      ],
+      afterCode: "a\nd\n",
+    });
+
+    assertEquals(ghostTexts, [{ kind: "lines", lnum: 2, above: true, lines: ["b", "c"], changeType: "removed" }]);
+  });
+
+  it("should show removed trailing lines below the last line", () => {
+    const ghostTexts = computeGhostTexts({
+      changes: [
+        { value: "a\n", count: 2 },
+        { value: "b\n", count: 2, removed: true },
+      ],
+      afterCode: "a\n",
+    });
+
+    assertEquals(ghostTexts, [{ kind: "lines", lnum: 1, above: false, lines: ["b"], changeType: "removed" }]);
+  });
+
+  it("should mark line breaks inside inline text and keep moved origins", () => {
+    const ghostTexts = computeGhostTexts({
+      changes: [
+        { value: "x", count: 1 },
+        { value: "y\nz", count: 3, removed: true },
+        { value: "\n", count: 1 },
+        { value: "m\n", count: 2, removed: true, moved: true },
+        { value: "m\n", count: 2, added: true, moved: true },
+      ],
+      afterCode: "x\nm\n",
+    });
+
+    assertEquals(ghostTexts, [
+      { kind: "inline", lnum: 1, col: 1, text: "y↵z", changeType: "removed" },
+      { kind: "lines", lnum: 2, above: true, lines: ["m"], changeType: "moved" },
+    ]);
+  });
+
+  it("should skip removals that were replaced", () => {
+    const ghostTexts = computeGhostTexts({
+      changes: [
+        { value: "foo", count: 3, removed: true },
+        { value: "bar", count: 3, added: true },
+        { value: "\n", count: 1 },
+      ],
+      afterCode: "bar\n",
+    });
+
+    assertEquals(ghostTexts, []);
+  });
+});
@@ -18,43 +18,63 @@ export const DisplayStrategy = {
 
 export type DisplayStrategy = typeof DisplayStrategy[keyof typeof DisplayStrategy];
 
+export const DiffGranularity = {
+  Character: "character", // Diff changed hunks character by character
+  Word: "word", // Diff changed hunks by identifier/number/punctuation/whitespace tokens
+} as const;
+
+export type DiffGranularity = typeof DiffGranularity[keyof typeof DiffGranularity];
+
+// Missing values fall back to DEFAULT_THRESHOLDS, DEFAULT_STRATEGIES and DEFAULT_GRANULARITY
 export type HeuristicConfig = {
   enabled?: boolean;
   thresholds?: {
-    tiny?: number; // default: 5
-    small?: number; // default: 20
-    medium?: number; // default: 100
+    tiny?: number;
+    small?: number;
+    medium?: number;
   };
   strategies?: {
-    [ChangeSize.Tiny]?: DisplayStrategy; // default: Character
-    [ChangeSize.Small]?: DisplayStrategy; // default: Word
-    [ChangeSize.Medium]?: DisplayStrategy; // default: Line
-    [ChangeSize.Large]?: DisplayStrategy; // default: Block
+    [ChangeSize.Tiny]?: DisplayStrategy;
+    [ChangeSize.Small]?: DisplayStrategy;
+    [ChangeSize.Medium]?: DisplayStrategy;
+    [ChangeSize.Large]?: DisplayStrategy;
+  };
+  granularity?: {
+    [ChangeSize.Tiny]?: DiffGranularity;
+    [ChangeSize.Small]?: DiffGranularity;
+    [ChangeSize.Medium]?: DiffGranularity;
+    [ChangeSize.Large]?: DiffGranularity;
   };
 };
 
-const DEFAULT_THRESHOLDS = {
+// Upper bounds in changed characters, also the `heuristics` defaults of the config
+export const DEFAULT_THRESHOLDS = {
   tiny: 5,
   small: 20,
   medium: 100,
 };
 
-const DEFAULT_STRATEGIES = {
+export const DEFAULT_STRATEGIES = {
   [ChangeSize.Tiny]: DisplayStrategy.Character,
   [ChangeSize.Small]: DisplayStrategy.Word,
   [ChangeSize.Medium]: DisplayStrategy.Line,
   [ChangeSize.Large]: DisplayStrategy.Block,
 };
 
+export const DEFAULT_GRANULARITY = {
+  [ChangeSize.Tiny]: DiffGranularity.Character,
+  [ChangeSize.Small]: DiffGranularity.Word,
+  [ChangeSize.Medium]: DiffGranularity.Word,
+  [ChangeSize.Large]: DiffGranularity.Word,
+};
+
 /**
- * Evaluate the size of changes
+ * Classify a number of changed characters
  */
-export function evaluateChangeSize(
-  ranges: ReadonlyArray<Range>,
+export function classifyChangeSize(
+  totalChars: number,
   thresholds: typeof DEFAULT_THRESHOLDS = DEFAULT_THRESHOLDS,
 ): ChangeSize {
-  const totalChars = ranges.reduce((sum, range) => sum + range.matchText.length, 0);
-
   if (totalChars <= thresholds.tiny) {
     return ChangeSize.Tiny;
   } else if (totalChars <= thresholds.small) {
@@ -65,6 +85,30 @@ export function evaluateChangeSize(
   return ChangeSize.Large;
 }
 
+/**
+ * Evaluate the size of changes
+ */
+export function evaluateChangeSize(
+  ranges: ReadonlyArray<Range>,
+  thresholds: typeof DEFAULT_THRESHOLDS = DEFAULT_THRESHOLDS,
+): ChangeSize {
+  const totalChars = ranges.reduce((sum, range) => sum + range.matchText.length, 0);
+  return classifyChangeSize(totalChars, thresholds);
+}
+
+/**
+ * Select the diff granularity for a hunk with the given number of changed characters.
+ * Character diffs are used when heuristics are disabled.
+ */
+export function selectDiffGranularity(changedChars: number, config: HeuristicConfig = {}): DiffGranularity {
+  if (config.enabled === false) {
+    return DiffGranularity.Character;
+  }
+
+  const size = classifyChangeSize(changedChars, { ...DEFAULT_THRESHOLDS, ...config.thresholds });
+  return config.granularity?.[size] ?? DEFAULT_GRANULARITY[size];
+}
+
 /**
  * Select display strategy based on size
  */
@@ -2,8 +2,10 @@ import { assertEquals } from "../deps.ts";
 import {
   applyHeuristicStrategy,
   ChangeSize,
+  DiffGranularity,
   DisplayStrategy,
   evaluateChangeSize,
+  selectDiffGranularity,
   selectDisplayStrategy,
 } from "./heuristic-strategy.ts";
 import type { Range } from "./range-computer.ts";
@@ -201,3 +203,25 @@ Deno.test("applyHeuristicStrategy", async (t) => {
     assertEquals(result.length, 2);
   });
 });
+
+Deno.test("selectDiffGranularity", async (t) => {
+  await t.step("should diff tiny hunks by character and larger ones by word", () => {
+    assertEquals(selectDiffGranularity(4), DiffGranularity.Character);
+    assertEquals(selectDiffGranularity(10), DiffGranularity.Word);
+    assertEquals(selectDiffGranularity(500), DiffGranularity.Word);
+  });
+
+  await t.step("should follow configured thresholds and granularity", () => {
+    const config = {
+      thresholds: { tiny: 20 },
+      granularity: { [ChangeSize.Large]: DiffGranularity.Character },
+    };
+    assertEquals(selectDiffGranularity(10, config), DiffGranularity.Character);
+    assertEquals(selectDiffGranularity(50, config), DiffGranularity.Word);
+    assertEquals(selectDiffGranularity(500, config), DiffGranularity.Character);
+  });
+
+  await t.step("should use character diffs when heuristics are disabled", () => {
+    assertEquals(selectDiffGranularity(50, { enabled: false }), DiffGranularity.Character);
+  });
+});
@@ -0,0 +1,70 @@
+// Where to move the cursor after a change, and which highlighted ranges are out of view
+
+import type { Range } from "./range-computer.ts";
+
+export type JumpTarget = "none" | "first" | "nearest";
+
+// Highlighted changes on one side of the window: how many, and the line of the closest one
+export type OffscreenChanges = { count: number; lnum: number };
+
+export type OffscreenSummary = {
+  above: OffscreenChanges | null;
+  below: OffscreenChanges | null;
+};
+
+function comparePosition(a: Range, b: Range): number {
+  return a.lnum - b.lnum || a.col.start - b.col.start;
+}
+
+/**
+ * Range to move the cursor to: the first one in the buffer, or the one nearest to `cursorLnum`
+ */
+export function pickJumpTarget(
+  ranges: ReadonlyArray<Range>,
+  target: JumpTarget,
+  cursorLnum: number,
+): Range | undefined {
+  if (target === "none" || ranges.length === 0) {
+    return undefined;
+  }
+
+  const sorted = [...ranges].sort(comparePosition);
+  if (target === "first") {
+    return sorted[0];
+  }
+
+  // The earlier range wins a tie
+  return sorted.reduce((best, range) =>
+    Math.abs(range.lnum - cursorLnum) < Math.abs(best.lnum - cursorLnum) ? range : best
+  );
+}
+
+// Changes are counted as blocks of consecutive lines
+function countChanges(lines: ReadonlyArray<number>): number {
+  return lines.filter((lnum, i) => i === 0 || lnum !== lines[i - 1] + 1).length;
+}
+
+/**
+ * Changes above and below the visible lines `view.top`..`view.bottom`
+ */
+export function summarizeOffscreen(
+  ranges: ReadonlyArray<Range>,
+  view: { top: number; bottom: number },
+): OffscreenSummary {
+  const lines = [...new Set(ranges.map((range) => range.lnum))].sort((a, b) => a - b);
+  const above = lines.filter((lnum) => lnum < view.top);
+  const below = lines.filter((lnum) => lnum > view.bottom);
+
+  return {
+    above: above.length > 0 ? { count: countChanges(above), lnum: above[above.length - 1] } : null,
+    below: below.length > 0 ? { count: countChanges(below), lnum: below[0] } : null,
+  };
+}
+
+/**
+ * e.g. "3 more changes below, line 812"
+ */
+export function formatOffscreenMessage(side: "above" | "below", changes: OffscreenChanges): string {
+  const noun = changes.count === 1 ? "change" : "changes";
+  return `${changes.count} more ${noun} ${side}, line ${changes.lnum}`;
+}
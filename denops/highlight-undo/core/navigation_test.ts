@@ -0,0 +1,55 @@
+import { assertEquals } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import { formatOffscreenMessage, pickJumpTarget, summarizeOffscreen } from "./navigation.ts";
+import type { Range } from "./range-computer.ts";
+
+const rangeAt = (lnum: number, start = 0): Range => ({
+  lnum,
+  lineText: "",
+  col: { start, end: start + 1 },
+  matchText: "",
+  changeType: "added",
+});
+
+describe("navigation", () => {
+  describe("pickJumpTarget", () => {
+    const ranges = [rangeAt(40), rangeAt(5, 3), rangeAt(5, 1), rangeAt(20)];
+
+    it("should pick the first range in the buffer", () => {
+      assertEquals(pickJumpTarget(ranges, "first", 30), rangeAt(5, 1));
+    });
+
+    it("should pick the range nearest to the cursor", () => {
+      assertEquals(pickJumpTarget(ranges, "nearest", 33), rangeAt(40));
+      assertEquals(pickJumpTarget(ranges, "nearest", 30), rangeAt(20));
+    });
+
+    it("should not jump without a target or ranges", () => {
+      assertEquals(pickJumpTarget(ranges, "none", 1), undefined);
+      assertEquals(pickJumpTarget([], "first", 1), undefined);
+    });
+  });
+
+  describe("summarizeOffscreen", () => {
+    it("should count blocks of changed lines outside the view", () => {
+      const ranges = [1, 2, 5, 10, 11, 812, 813, 900, 950].map((lnum) => rangeAt(lnum));
+
+      assertEquals(summarizeOffscreen(ranges, { top: 10, bottom: 800 }), {
+        above: { count: 2, lnum: 5 },
+        below: { count: 3, lnum: 812 },
+      });
+    });
+
+    it("should report nothing when every range is visible", () => {
+      assertEquals(summarizeOffscreen([rangeAt(3), rangeAt(3, 4)], { top: 1, bottom: 50 }), {
+        above: null,
+        below: null,
+      });
+    });
+  });
+
+  it("should format the indicator message", () => {
+    assertEquals(formatOffscreenMessage("below", { count: 3, lnum: 812 }), "3 more changes below, line 812");
+    assertEquals(formatOffscreenMessage("above", { count: 1, lnum: 4 }), "1 more change above, line 4");
+  });
+});
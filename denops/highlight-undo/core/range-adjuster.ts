@@ -405,11 +405,16 @@ export function mergeOverlappingRanges(ranges: ReadonlyArray<Range>): ReadonlyAr
     return ranges;
   }
 
-  // Sort ranges by line number and start column
+  // Sort ranges by line number, kind (change type and moved side) and start column,
+  // so that ranges of the same kind are adjacent even when other kinds overlap them
+  const kindOf = (range: Range) => `${range.changeType}:${range.movedSide ?? ""}`;
   const sorted = [...ranges].sort((a, b) => {
     if (a.lnum !== b.lnum) {
       return a.lnum - b.lnum;
     }
+    if (kindOf(a) !== kindOf(b)) {
+      return kindOf(a) < kindOf(b) ? -1 : 1;
+    }
     return a.col.start - b.col.start;
   });
 
@@ -423,6 +428,7 @@ export function mergeOverlappingRanges(ranges: ReadonlyArray<Range>): ReadonlyAr
     if (
       current.lnum === next.lnum &&
       current.changeType === next.changeType &&
+      current.movedSide === next.movedSide &&
       current.col.end >= next.col.start
     ) {
       // Merge the ranges
@@ -436,6 +442,9 @@ export function mergeOverlappingRanges(ranges: ReadonlyArray<Range>): ReadonlyAr
           end: newEnd,
         },
         matchText: newMatchText,
+        ...(current.oldText !== undefined || next.oldText !== undefined
+          ? { oldText: (current.oldText ?? "") + (next.oldText ?? "") }
+          : {}),
       };
     } else {
       // No overlap, add current to merged and move to next
@@ -275,6 +275,41 @@ describe("range-adjuster", () => {
       assertEquals(merged[0].matchText, "hello world");
     });
 
+    it("should not merge moved ranges with other change types", () => {
+      const ranges: Range[] = [
+        {
+          lnum: 1,
+          lineText: "hello world",
+          col: { start: 0, end: 5 },
+          matchText: "hello",
+          changeType: "moved",
+          movedSide: "origin",
+        },
+        {
+          lnum: 1,
+          lineText: "hello world",
+          col: { start: 5, end: 11 },
+          matchText: " world",
+          changeType: "moved",
+          movedSide: "origin",
+        },
+        {
+          lnum: 1,
+          lineText: "hello world",
+          col: { start: 3, end: 8 },
+          matchText: "lo wo",
+          changeType: "removed",
+        },
+      ];
+
+      const merged = mergeOverlappingRanges(ranges);
+
+      assertEquals(merged.map((r) => [r.changeType, r.col.start, r.col.end]), [
+        ["moved", 0, 11],
+        ["removed", 3, 8],
+      ]);
+    });
+
     it("should merge adjacent ranges", () => {
       const ranges: Range[] = [
         {
@@ -1,6 +1,7 @@
 import type { Diff } from "../deps.ts";
+import type { DiffChange } from "./diff-optimizer.ts";
 
-export type ChangeType = "added" | "removed";
+export type ChangeType = "added" | "removed" | "moved" | "changed";
 
 export type Range = {
   lnum: number;
@@ -11,6 +12,10 @@ export type Range = {
   };
   matchText: string;
   changeType: ChangeType;
+  // For moved ranges: the place the lines were removed from, or the place they were added to
+  movedSide?: "origin" | "destination";
+  // For changed ranges in the new text: the text it replaced
+  oldText?: string;
 };
 
 // Helper functions
@@ -143,20 +148,67 @@ function processChange(
   }
 }
 
+/**
+ * Whether changes[index] is half of a removal directly followed by its replacement
+ */
+export function isPairedChange(changes: ReadonlyArray<DiffChange>, index: number): boolean {
+  const change = changes[index];
+  if (!change || change.moved) {
+    return false;
+  }
+  if (change.removed) {
+    const next = changes[index + 1];
+    return !!next?.added && !next.moved;
+  }
+  if (change.added) {
+    const previous = changes[index - 1];
+    return !!previous?.removed && !previous.moved;
+  }
+  return false;
+}
+
+/**
+ * Whether some text is removed without being replaced
+ */
+export function hasUnpairedRemovals(changes: ReadonlyArray<DiffChange>): boolean {
+  return changes.some((change, i) => change.removed && !isPairedChange(changes, i));
+}
+
+/**
+ * Compute the ranges of added (in afterCode) or removed (in beforeCode) text.
+ * Changes tagged as moved produce "moved" ranges on both sides.
+ * With `pairReplacements`, removed/added pairs produce "changed" ranges on both sides;
+ * the ones in afterCode carry the replaced text in `oldText`.
+ */
 export function computeRanges(params: {
-  changes: Array<Diff.Change>;
+  changes: Array<DiffChange>;
   beforeCode: string;
   afterCode: string;
-  changeType: ChangeType;
+  changeType: "added" | "removed";
+  pairReplacements?: boolean;
 }): ReadonlyArray<Range> {
-  const { changes, beforeCode, afterCode, changeType } = params;
+  const { changes, beforeCode, afterCode, changeType, pairReplacements = false } = params;
   // Use beforeCode for removed changes, afterCode for added changes
   const targetCode = changeType === "removed" ? beforeCode : afterCode;
   let codeIndex = 0;
   let ranges: ReadonlyArray<Range> = [];
 
-  for (const change of changes) {
-    if (change[changeType]) {
+  for (const [i, change] of changes.entries()) {
+    if (change[changeType] && pairReplacements && isPairedChange(changes, i)) {
+      const oldText = changeType === "added" ? changes[i - 1].value : undefined;
+      ranges = [
+        ...ranges,
+        ...processChange(change, targetCode, codeIndex, "changed").map((range) =>
+          oldText === undefined ? range : { ...range, oldText }
+        ),
+      ];
+    } else if (change[changeType] && change.moved) {
+      const movedSide: Range["movedSide"] = changeType === "removed" ? "origin" : "destination";
+      ranges = [
+        ...ranges,
+        ...processChange(change, targetCode, codeIndex, "moved").map((range) => ({ ...range, movedSide })),
+      ];
+    } else if (change[changeType]) {
       ranges = [...ranges, ...processChange(change, targetCode, codeIndex, changeType)];
     }
 
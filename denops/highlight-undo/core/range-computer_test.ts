@@ -1,6 +1,6 @@
 import { assertEquals } from "../deps.ts";
 import { describe, it } from "../deps.ts";
-import { computeRanges } from "./range-computer.ts";
+import { computeRanges, hasUnpairedRemovals, isPairedChange } from "./range-computer.ts";
 import type { Diff } from "../deps.ts";
 
 describe("RangeComputer", () => {
@@ -178,4 +178,81 @@ describe("RangeComputer", () => {
       assertEquals(ranges[0].matchText, "123");
     });
   });
+
+  describe("moved changes", () => {
+    const changes = [
+      { value: "a\n", count: 2 },
+      { value: "move me\n", count: 8, removed: true, moved: true },
+      { value: "b\n", count: 2 },
+      { value: "move me\n", count: 8, added: true, moved: true },
+    ];
+    const beforeCode = "a\nmove me\nb\n";
+    const afterCode = "a\nb\nmove me\n";
+
+    it("should emit moved ranges at the origin for the removed side", () => {
+      const ranges = computeRanges({ changes, beforeCode, afterCode, changeType: "removed" });
+
+      assertEquals(ranges.map((r) => [r.lnum, r.changeType, r.movedSide, r.matchText]), [
+        [2, "moved", "origin", "move me"],
+      ]);
+    });
+
+    it("should emit moved ranges at the destination for the added side", () => {
+      const ranges = computeRanges({ changes, beforeCode, afterCode, changeType: "added" });
+
+      assertEquals(ranges.map((r) => [r.lnum, r.changeType, r.movedSide, r.matchText]), [
+        [3, "moved", "destination", "move me"],
+      ]);
+    });
+  });
+
+  describe("changed pairs", () => {
+    const changes = [
+      { value: "let ", count: 4 },
+      { value: "foo", count: 3, removed: true },
+      { value: "barbaz", count: 6, added: true },
+      { value: " = 1;\n", count: 6 },
+      { value: "drop\n", count: 5, removed: true },
+    ];
+    const beforeCode = "let foo = 1;\ndrop\n";
+    const afterCode = "let barbaz = 1;\n";
+
+    it("should pair a removal with the addition that directly follows it", () => {
+      assertEquals(changes.map((_, i) => isPairedChange(changes, i)), [false, true, true, false, false]);
+      assertEquals(hasUnpairedRemovals(changes), true);
+      assertEquals(hasUnpairedRemovals(changes.slice(0, 4)), false);
+    });
+
+    it("should not pair moved changes", () => {
+      const moved = [
+        { value: "x\n", count: 2, removed: true, moved: true },
+        { value: "y\n", count: 2, added: true },
+      ];
+      assertEquals(isPairedChange(moved, 0), false);
+      assertEquals(isPairedChange(moved, 1), false);
+    });
+
+    it("should emit changed ranges carrying the old text on the added side", () => {
+      const ranges = computeRanges({ changes, beforeCode, afterCode, changeType: "added", pairReplacements: true });
+
+      assertEquals(ranges.map((r) => [r.lnum, r.changeType, r.matchText, r.oldText]), [
+        [1, "changed", "barbaz", "foo"],
+      ]);
+    });
+
+    it("should keep unpaired removals as removed on the removed side", () => {
+      const ranges = computeRanges({ changes, beforeCode, afterCode, changeType: "removed", pairReplacements: true });
+
+      assertEquals(ranges.map((r) => [r.lnum, r.changeType, r.matchText, r.oldText]), [
+        [1, "changed", "foo", undefined],
+        [2, "removed", "drop", undefined],
+      ]);
+    });
+
+    it("should only pair when asked to", () => {
+      const ranges = computeRanges({ changes, beforeCode, afterCode, changeType: "added" });
+
+      assertEquals(ranges.map((r) => [r.changeType, r.oldText]), [["added", undefined]]);
+    });
+  });
 });
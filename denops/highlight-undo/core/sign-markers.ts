@@ -0,0 +1,35 @@
+// One sign column marker per changed line
+
+import type { ChangeType } from "./range-computer.ts";
+
+export type SignMarker = { lnum: number; changeType: ChangeType };
+
+// Sign text and highlight group per change type, plus whether to color the number column and line
+export type SignOptions = {
+  text: Record<ChangeType, string>;
+  groups: Record<ChangeType, string>;
+  numhl: boolean;
+  linehl: boolean;
+};
+
+// When a line has several kinds of changes, the sign shows the first one in this list
+const SIGN_PRIORITY: ReadonlyArray<ChangeType> = ["changed", "removed", "added", "moved"];
+
+/**
+ * Reduce ranges (or anything with a line and a change type) to one marker per line, sorted by line
+ */
+export function computeSignMarkers(
+  items: ReadonlyArray<{ lnum: number; changeType: ChangeType }>,
+): SignMarker[] {
+  const byLine = new Map<number, ChangeType>();
+  for (const { lnum, changeType } of items) {
+    const current = byLine.get(lnum);
+    if (current === undefined || SIGN_PRIORITY.indexOf(changeType) < SIGN_PRIORITY.indexOf(current)) {
+      byLine.set(lnum, changeType);
+    }
+  }
+
+  return [...byLine.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([lnum, changeType]) => ({ lnum, changeType }));
+}
@@ -0,0 +1,33 @@
+import { assertEquals } from "../deps.ts";
+import { describe, it } from "../deps.ts";
+import { computeSignMarkers } from "./sign-markers.ts";
+
+describe("computeSignMarkers", () => {
+  it("should place one marker per changed line", () => {
+    const markers = computeSignMarkers([
+      { lnum: 7, changeType: "added" },
+      { lnum: 3, changeType: "removed" },
+      { lnum: 7, changeType: "added" },
+    ]);
+
+    assertEquals(markers, [
+      { lnum: 3, changeType: "removed" },
+      { lnum: 7, changeType: "added" },
+    ]);
+  });
+
+  it("should prefer changed over removed, added and moved on the same line", () => {
+    const markers = computeSignMarkers([
+      { lnum: 1, changeType: "moved" },
+      { lnum: 1, changeType: "added" },
+      { lnum: 2, changeType: "added" },
+      { lnum: 2, changeType: "changed" },
+      { lnum: 2, changeType: "removed" },
+    ]);
+
+    assertEquals(markers, [
+      { lnum: 1, changeType: "added" },
+      { lnum: 2, changeType: "changed" },
+    ]);
+  });
+});
@@ -44,3 +44,23 @@ export function fillRangeGaps({
 
   return filledRanges;
 }
+
+// A replacement of the 0-based, end-exclusive line span [firstLine, lastLine)
+// (the same convention as nvim_buf_set_lines and nvim_buf_attach's on_lines)
+export type LineChange = {
+  firstLine: number;
+  lastLine: number;
+  lines: ReadonlyArray<string>;
+};
+
+// applyLineChange function for replaying line events on a line-array model
+export function applyLineChange(
+  lines: ReadonlyArray<string>,
+  change: LineChange,
+): string[] {
+  return [
+    ...lines.slice(0, change.firstLine),
+    ...change.lines,
+    ...lines.slice(change.lastLine),
+  ];
+}
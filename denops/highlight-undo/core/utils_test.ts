@@ -1,7 +1,7 @@
 import { assertEquals } from "../deps.ts";
 import { describe, it } from "../deps.ts";
 import type { Diff } from "../deps.ts";
-import { fillRangeGaps } from "./utils.ts";
+import { applyLineChange, fillRangeGaps } from "./utils.ts";
 import { computeRanges, type Range } from "./range-computer.ts";
 
 describe("computeRanges", () => {
@@ -232,3 +232,31 @@ describe("fillRangeGaps", () => {
     assertEquals(filled.length, 0);
   });
 });
+
+describe("applyLineChange", () => {
+  const lines = ["a", "b", "c", "d"];
+
+  it("should replace a span of lines", () => {
+    assertEquals(applyLineChange(lines, { firstLine: 1, lastLine: 3, lines: ["x"] }), ["a", "x", "d"]);
+  });
+
+  it("should insert lines when the span is empty", () => {
+    assertEquals(applyLineChange(lines, { firstLine: 4, lastLine: 4, lines: ["e", "f"] }), [
+      "a",
+      "b",
+      "c",
+      "d",
+      "e",
+      "f",
+    ]);
+  });
+
+  it("should delete lines when no replacement is given", () => {
+    assertEquals(applyLineChange(lines, { firstLine: 0, lastLine: 2, lines: [] }), ["c", "d"]);
+  });
+
+  it("should not mutate the input", () => {
+    applyLineChange(lines, { firstLine: 0, lastLine: 4, lines: [] });
+    assertEquals(lines, ["a", "b", "c", "d"]);
+  });
+});
@@ -1,6 +1,8 @@
 // Error handling and logging system
 
 import type { Denops } from "./deps.ts";
+import { ConfigValidationError } from "./config.ts";
+import { type ConfigDiagnostic, diagnosticChunks } from "./config-diagnostics.ts";
 
 export interface ErrorContext {
   bufnr?: number;
@@ -17,6 +19,10 @@ export interface IErrorHandler {
     error: unknown,
     context: ErrorContext,
   ): Promise<void>;
+  /**
+   * Show config diagnostics, one highlighted line each
+   */
+  reportDiagnostics(denops: Denops, diagnostics: ReadonlyArray<ConfigDiagnostic>): Promise<void>;
 }
 
 export function createErrorHandler(debugMode = false, logFile?: string): IErrorHandler {
@@ -46,8 +52,12 @@ export function createErrorHandler(debugMode = false, logFile?: string): IErrorH
     const message = error instanceof Error ? error.message : String(error);
 
     try {
-      // Show error message to user
-      await denops.call("nvim_err_writeln", `highlight-undo: ${message}`);
+      // Show error message to user, config errors as their diagnostics
+      if (error instanceof ConfigValidationError) {
+        await reportDiagnostics(denops, error.diagnostics);
+      } else {
+        await denops.call("nvim_err_writeln", `highlight-undo: ${message}`);
+      }
 
       // Log detailed info in debug mode
       if (debug && context.phase) {
@@ -67,6 +77,12 @@ export function createErrorHandler(debugMode = false, logFile?: string): IErrorH
     }
   }
 
+  async function reportDiagnostics(denops: Denops, diagnostics: ReadonlyArray<ConfigDiagnostic>): Promise<void> {
+    if (diagnostics.length > 0) {
+      await denops.call("nvim_echo", diagnosticChunks(diagnostics), true, {});
+    }
+  }
+
   async function logToFile(message: string): Promise<void> {
     if (!logFilePath) return;
 
@@ -110,5 +126,6 @@ export function createErrorHandler(debugMode = false, logFile?: string): IErrorH
     },
 
     handle,
+    reportDiagnostics,
   };
 }
@@ -0,0 +1,141 @@
+// Fade highlights out by re-tagging their extmarks with blended highlight groups
+
+import type { Denops } from "../deps.ts";
+import { type BezierCurve, computeColorRamp, type Easing, easingOf, fadeGroupName } from "../core/animation.ts";
+
+export type AnimationOptions = {
+  enabled?: boolean;
+  steps?: number;
+  easing?: Easing;
+  curve?: BezierCurve;
+};
+
+export interface IHighlightAnimator {
+  /**
+   * Wait `duration` ms while fading the highlights in `nameSpace` of `bufnr` from their
+   * `groups` towards the `Normal` colors. Without an enabled animation this only waits.
+   * Returns early once `signal` is aborted.
+   */
+  fadeOut(
+    denops: Denops,
+    nameSpace: number,
+    bufnr: number,
+    groups: ReadonlyArray<string>,
+    duration: number,
+    animation?: AnimationOptions,
+    signal?: AbortSignal,
+  ): Promise<void>;
+}
+
+// nvim_get_hl() result, colors are 24-bit RGB
+type HighlightDefinition = { fg?: number; bg?: number; [key: string]: unknown };
+
+const DEFAULT_STEPS = 10;
+
+// Resolves after `ms`, or as soon as `signal` is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function getHighlight(denops: Denops, name: string): Promise<HighlightDefinition> {
+  return (await denops.call("nvim_get_hl", 0, { name, link: false })) as HighlightDefinition;
+}
+
+// Normal colors, guessed from 'background' for transparent colorschemes
+async function getNormalColors(denops: Denops): Promise<{ fg: number; bg: number }> {
+  const normal = await getHighlight(denops, "Normal");
+  const dark = (await denops.eval("&background")) === "dark";
+  return {
+    fg: normal.fg ?? (dark ? 0xffffff : 0x000000),
+    bg: normal.bg ?? (dark ? 0x000000 : 0xffffff),
+  };
+}
+
+/**
+ * Define the fade groups of every group for steps 1..steps.
+ * Foregrounds blend towards the Normal foreground, backgrounds towards the Normal background.
+ */
+async function defineFadeGroups(
+  denops: Denops,
+  groups: ReadonlyArray<string>,
+  steps: number,
+  ease: (t: number) => number,
+): Promise<void> {
+  const normal = await getNormalColors(denops);
+
+  for (const group of groups) {
+    const definition = await getHighlight(denops, group);
+    const fgRamp = definition.fg !== undefined ? computeColorRamp(definition.fg, normal.fg, steps, ease) : null;
+    const bgRamp = definition.bg !== undefined ? computeColorRamp(definition.bg, normal.bg, steps, ease) : null;
+
+    for (let step = 1; step <= steps; step++) {
+      await denops.call("nvim_set_hl", 0, fadeGroupName(group, step), {
+        ...definition,
+        ...(fgRamp ? { fg: fgRamp[step - 1] } : {}),
+        ...(bgRamp ? { bg: bgRamp[step - 1] } : {}),
+      });
+    }
+  }
+}
+
+async function fadeOut(
+  denops: Denops,
+  nameSpace: number,
+  bufnr: number,
+  groups: ReadonlyArray<string>,
+  duration: number,
+  animation?: AnimationOptions,
+  signal?: AbortSignal,
+): Promise<void> {
+  const steps = animation?.enabled ? animation.steps ?? DEFAULT_STEPS : 0;
+  if (steps === 0 || signal?.aborted) {
+    await sleep(duration, signal);
+    return;
+  }
+
+  const uniqueGroups = [...new Set(groups)];
+  try {
+    await defineFadeGroups(denops, uniqueGroups, steps, easingOf(animation?.easing, animation?.curve));
+  } catch (error) {
+    // e.g. nvim_get_hl() is missing before Neovim 0.9, keep the highlights as they are
+    console.error(`[highlight-undo] Failed to define fade highlight groups:`, error);
+    await sleep(duration, signal);
+    return;
+  }
+
+  // The highlight stays at full color for the first interval and is cleared after the last one
+  const interval = duration / (steps + 1);
+  for (let step = 1; step <= steps; step++) {
+    await sleep(interval, signal);
+    if (signal?.aborted) {
+      return;
+    }
+    const mapping = Object.fromEntries(uniqueGroups.map((group) => [group, fadeGroupName(group, step)]));
+    await denops.call(
+      "luaeval",
+      `require('highlight-undo')._retag_highlights(_A[1], _A[2], _A[3])`,
+      [nameSpace, bufnr, mapping],
+    );
+    await denops.cmd("redraw");
+  }
+  await sleep(interval, signal);
+}
+
+export function createHighlightAnimator(): IHighlightAnimator {
+  return {
+    fadeOut,
+  };
+}
@@ -1,37 +1,107 @@
 // Batch highlight operations for better performance
 
 import type { Denops } from "../deps.ts";
-import type { Range } from "../core/range-computer.ts";
+import type { ChangeType, Range } from "../core/range-computer.ts";
+import type { GhostText } from "../core/ghost-text.ts";
+import type { SignMarker, SignOptions } from "../core/sign-markers.ts";
+
+// Virtual text chunk as nvim_buf_set_extmark expects it: [text, highlight group]
+export type VirtualTextChunk = [string, string];
+
+// How other windows showing the changed buffer follow the change
+export type WindowSync = "none" | "scroll" | "flash";
 
 export interface IHighlightBatcher {
+  /**
+   * Highlight ranges with `highlightGroup`, or with the group in `groups`
+   * for their change type (e.g. moved ranges inside a removal).
+   * Changed ranges also pass the text they replaced to Lua.
+   * With `changedtick`, nothing is placed once the buffer has changed since that tick;
+   * returns false in that case.
+   */
   applyHighlights(
     denops: Denops,
     ranges: ReadonlyArray<Range>,
     nameSpace: number,
+    bufnr: number,
     highlightGroup: string,
-  ): Promise<void>;
+    groups?: Partial<Record<ChangeType, string>>,
+    changedtick?: number,
+  ): Promise<boolean>;
   clearHighlights(
     denops: Denops,
     nameSpace: number,
-    bufnr?: number,
+    bufnr: number,
   ): Promise<void>;
   applyHighlightsBulk(
     denops: Denops,
     addedRanges: ReadonlyArray<Range>,
     removedRanges: ReadonlyArray<Range>,
     nameSpace: number,
-    config: { added: string; removed: string },
+    bufnr: number,
+    config: { added: string; removed: string; moved?: string },
+  ): Promise<void>;
+  /**
+   * Render removed text that is no longer in the buffer:
+   * inline virtual text inside lines, virtual lines for whole lines.
+   */
+  applyVirtualText(
+    denops: Denops,
+    ghostTexts: ReadonlyArray<GhostText>,
+    nameSpace: number,
+    bufnr: number,
+    groups: Record<ChangeType, string>,
+    changedtick?: number,
   ): Promise<void>;
+  /**
+   * Place one sign per marker in the sign column, cleared together with the highlights
+   */
+  applySigns(
+    denops: Denops,
+    markers: ReadonlyArray<SignMarker>,
+    nameSpace: number,
+    bufnr: number,
+    options: SignOptions,
+    changedtick?: number,
+  ): Promise<void>;
+  /**
+   * Show right-aligned markers such as "3 more changes below, line 812" on `lnum`
+   */
+  showIndicators(
+    denops: Denops,
+    indicators: ReadonlyArray<{ lnum: number; text: string }>,
+    nameSpace: number,
+    bufnr: number,
+  ): Promise<void>;
+  /**
+   * Bring `lnum` into view ("scroll") or briefly flash ("flash")
+   * every other window that shows `bufnr`
+   */
+  syncWindows(
+    denops: Denops,
+    bufnr: number,
+    lnum: number,
+    mode: WindowSync,
+  ): Promise<void>;
+}
+
+// Per-range highlight group, only set when it differs from the batch default
+function groupOf(range: Range, groups?: Partial<Record<ChangeType, string>>): { hl_group?: string } {
+  const group = groups?.[range.changeType];
+  return group ? { hl_group: group } : {};
 }
 
 async function applyHighlights(
   denops: Denops,
   ranges: ReadonlyArray<Range>,
   nameSpace: number,
+  bufnr: number,
   highlightGroup: string,
-): Promise<void> {
+  groups?: Partial<Record<ChangeType, string>>,
+  changedtick?: number,
+): Promise<boolean> {
   if (ranges.length === 0) {
-    return;
+    return true;
   }
 
   // Group ranges by line for more efficient processing
@@ -50,19 +120,22 @@ async function applyHighlights(
         lnum: range.lnum,
         col_start: range.col.start,
         col_end: range.col.end,
+        ...groupOf(range, groups),
+        ...(range.oldText !== undefined ? { old_text: range.oldText } : {}),
       });
     }
   }
 
   // Call Lua function to apply highlights
   try {
-    await denops.call(
+    const placed = await denops.call(
       "luaeval",
-      `require('highlight-undo')._apply_highlights(_A[1], _A[2], _A[3])`,
-      [nameSpace, highlightGroup, luaRanges],
+      `require('highlight-undo')._apply_highlights(_A[1], _A[2], _A[3], _A[4], _A[5])`,
+      [nameSpace, bufnr, highlightGroup, luaRanges, changedtick ?? null],
     );
     // Force redraw to ensure highlights are visible
     await denops.cmd("redraw");
+    return placed !== false;
   } catch (error) {
     console.error(`[highlight-undo] Failed to call Lua function:`, error);
     throw error;
@@ -72,7 +145,7 @@ async function applyHighlights(
 async function clearHighlights(
   denops: Denops,
   nameSpace: number,
-  bufnr: number = 0,
+  bufnr: number,
 ): Promise<void> {
   try {
     await denops.call(
@@ -92,7 +165,8 @@ async function applyHighlightsBulk(
   addedRanges: ReadonlyArray<Range>,
   removedRanges: ReadonlyArray<Range>,
   nameSpace: number,
-  config: { added: string; removed: string },
+  bufnr: number,
+  config: { added: string; removed: string; moved?: string },
 ): Promise<void> {
   // Convert ranges to Lua-friendly format
   const convertRanges = (ranges: ReadonlyArray<Range>) =>
@@ -100,14 +174,16 @@ async function applyHighlightsBulk(
       row: range.lnum - 1,
       col_start: Math.max(0, range.col.start - 1),
       col_end: range.col.end,
+      ...groupOf(range, { moved: config.moved }),
     }));
 
   try {
     await denops.call(
       "luaeval",
-      `require('highlight-undo')._apply_highlights_bulk(_A[1], _A[2], _A[3], _A[4], _A[5])`,
+      `require('highlight-undo')._apply_highlights_bulk(_A[1], _A[2], _A[3], _A[4], _A[5], _A[6])`,
       [
         nameSpace,
+        bufnr,
         config.added,
         config.removed,
         convertRanges(addedRanges),
@@ -122,10 +198,129 @@ async function applyHighlightsBulk(
   }
 }
 
+async function applyVirtualText(
+  denops: Denops,
+  ghostTexts: ReadonlyArray<GhostText>,
+  nameSpace: number,
+  bufnr: number,
+  groups: Record<ChangeType, string>,
+  changedtick?: number,
+): Promise<void> {
+  if (ghostTexts.length === 0) {
+    return;
+  }
+
+  // Convert to Lua-friendly format, the text travels as chunks instead of column spans
+  const luaItems = ghostTexts.map((ghostText) => {
+    const group = groups[ghostText.changeType];
+    if (ghostText.kind === "inline") {
+      const chunks: VirtualTextChunk[] = [[ghostText.text, group]];
+      return { lnum: ghostText.lnum, col: ghostText.col, virt_text: chunks };
+    }
+    const lines: VirtualTextChunk[][] = ghostText.lines.map((line) => [[line, group]]);
+    return { lnum: ghostText.lnum, virt_lines: lines, virt_lines_above: ghostText.above };
+  });
+
+  try {
+    await denops.call(
+      "luaeval",
+      `require('highlight-undo')._apply_virtual_text(_A[1], _A[2], _A[3], _A[4])`,
+      [nameSpace, bufnr, luaItems, changedtick ?? null],
+    );
+    await denops.cmd("redraw");
+  } catch (error) {
+    console.error(`[highlight-undo] Failed to apply virtual text:`, error);
+    throw error;
+  }
+}
+
+async function applySigns(
+  denops: Denops,
+  markers: ReadonlyArray<SignMarker>,
+  nameSpace: number,
+  bufnr: number,
+  options: SignOptions,
+  changedtick?: number,
+): Promise<void> {
+  if (markers.length === 0) {
+    return;
+  }
+
+  const luaSigns = markers.map(({ lnum, changeType }) => {
+    const group = options.groups[changeType];
+    return {
+      lnum,
+      sign_text: options.text[changeType],
+      sign_hl_group: group,
+      ...(options.numhl ? { number_hl_group: group } : {}),
+      ...(options.linehl ? { line_hl_group: group } : {}),
+    };
+  });
+
+  try {
+    await denops.call(
+      "luaeval",
+      `require('highlight-undo')._apply_signs(_A[1], _A[2], _A[3], _A[4])`,
+      [nameSpace, bufnr, luaSigns, changedtick ?? null],
+    );
+  } catch (error) {
+    console.error(`[highlight-undo] Failed to apply signs:`, error);
+    throw error;
+  }
+}
+
+async function showIndicators(
+  denops: Denops,
+  indicators: ReadonlyArray<{ lnum: number; text: string }>,
+  nameSpace: number,
+  bufnr: number,
+): Promise<void> {
+  if (indicators.length === 0) {
+    return;
+  }
+
+  try {
+    await denops.call(
+      "luaeval",
+      `require('highlight-undo')._show_indicators(_A[1], _A[2], _A[3])`,
+      [nameSpace, bufnr, indicators],
+    );
+  } catch (error) {
+    console.error(`[highlight-undo] Failed to show indicators:`, error);
+    throw error;
+  }
+}
+
+async function syncWindows(
+  denops: Denops,
+  bufnr: number,
+  lnum: number,
+  mode: WindowSync,
+): Promise<void> {
+  if (mode === "none") {
+    return;
+  }
+
+  try {
+    await denops.call(
+      "luaeval",
+      `require('highlight-undo')._sync_windows(_A[1], _A[2], _A[3])`,
+      [bufnr, lnum, mode],
+    );
+  } catch (error) {
+    console.error(`[highlight-undo] Failed to sync windows:`, error);
+    throw error;
+  }
+}
+
 export function createHighlightBatcher(): IHighlightBatcher {
   return {
     applyHighlights,
     clearHighlights,
     applyHighlightsBulk,
+    applyVirtualText,
+    applySigns,
+    showIndicators,
+    syncWindows,
   };
 }
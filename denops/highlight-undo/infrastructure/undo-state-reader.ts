@@ -0,0 +1,40 @@
+// Read undo states from a shadow buffer without touching the visible one
+
+import type { Denops } from "../deps.ts";
+
+export interface IUndoStateReader {
+  /**
+   * Run Ex commands in a hidden copy of the buffer (text and undo tree)
+   * and return the buffer text after each command.
+   */
+  readStates(
+    denops: Denops,
+    bufnr: number,
+    commands: ReadonlyArray<string>,
+  ): Promise<string[]>;
+}
+
+async function readStates(
+  denops: Denops,
+  bufnr: number,
+  commands: ReadonlyArray<string>,
+): Promise<string[]> {
+  try {
+    const states = await denops.call(
+      "luaeval",
+      `require('highlight-undo.shadow').read_states(_A[1], _A[2])`,
+      [bufnr, commands],
+    ) as Array<Array<string>>;
+
+    return states.map((lines) => lines.join("\n") + "\n");
+  } catch (error) {
+    console.error(`[highlight-undo] Failed to read undo states:`, error);
+    throw error;
+  }
+}
+
+export function createUndoStateReader(): IUndoStateReader {
+  return {
+    readStates,
+  };
+}
@@ -2,84 +2,141 @@ import { Denops, fn } from "./deps.ts";
 import { createBufferStateManager } from "./application/buffer-state.ts";
 import { createDiffOptimizer } from "./core/diff-optimizer.ts";
 import { createHighlightBatcher } from "./infrastructure/highlight-batcher.ts";
+import { createHighlightAnimator } from "./infrastructure/highlight-animator.ts";
 import { createPerformanceMonitor, formatPerformanceMetrics } from "./performance.ts";
-import { Config, validateConfig } from "./config.ts";
+import { Config, diffOptionsOf, highlightGroupsOf, signOptionsOf, validateConfig } from "./config.ts";
+import type { ConfigDiagnostic } from "./config-diagnostics.ts";
 import { createErrorHandler } from "./error-handler.ts";
-import { createCommandQueue, createLockManager } from "./application/command-queue.ts";
+import {
+  type Coalescible,
+  createCommandQueue,
+  createLockManager,
+  type ICommandQueue,
+  type QueuedTask,
+} from "./application/command-queue.ts";
+import { createClearingPolicy, type IClearingPolicy } from "./application/clearing-policy.ts";
+import { createConfigResolver, type IConfigResolver } from "./application/config-resolver.ts";
+import { createConfigStore, type IConfigStore } from "./application/config-store.ts";
 import { applyRangeAdjustments, createHighlightCommandExecutor } from "./application/highlight-command-executor.ts";
-import { computeRanges } from "./core/range-computer.ts";
+import { computeRanges, hasUnpairedRemovals } from "./core/range-computer.ts";
 import { fillRangeGaps } from "./core/utils.ts";
+import { computeSignMarkers } from "./core/sign-markers.ts";
 import { convertRangesWithEncoding } from "./core/range-encoding.ts";
-
-type Command = "undo" | "redo";
-
-type UndoTree = {
-  entries: Array<{
-    curhead?: number;
-  }>;
-};
+import { createUndoStateReader } from "./infrastructure/undo-state-reader.ts";
+import type { DiffResult } from "./core/diff-optimizer.ts";
+import type { Range } from "./core/range-computer.ts";
+import {
+  canExecute,
+  isBackwardCommand,
+  parseUndoCommandRequest,
+  parseUndoSeq,
+  toExCommand,
+  type UndoCommandRequest,
+  type UndoTree,
+} from "./application/undo-command.ts";
 
 let config: Config;
 let nameSpace: number;
 const bufferStates = createBufferStateManager();
 const diffOptimizer = createDiffOptimizer();
 const highlightBatcher = createHighlightBatcher();
+const highlightAnimator = createHighlightAnimator();
+const undoStateReader = createUndoStateReader();
 const errorHandler = createErrorHandler();
-const commandQueue = createCommandQueue();
+let commandQueue: ICommandQueue = createCommandQueue();
 const lockManager = createLockManager();
 let debugMode = false;
 let highlightExecutor: ReturnType<typeof createHighlightCommandExecutor>;
+let clearingPolicy: IClearingPolicy;
+let configResolver: IConfigResolver;
+let configStore: IConfigStore;
+
+type PreviewResult = DiffResult & {
+  addedRanges: ReadonlyArray<Range>;
+  removedRanges: ReadonlyArray<Range>;
+};
+
+/**
+ * Read the buffer text, from the snapshot when it matches b:changedtick.
+ * Falls back to nvim_buf_get_lines() and re-seeds the snapshot with the result.
+ */
+const readBufferCode = async (denops: Denops, bufnr: number, changedtick?: number): Promise<string> => {
+  const snapshot = bufferStates.getSnapshot(bufnr);
+  if (changedtick != null && snapshot?.tick === changedtick) {
+    return snapshot.lines.join("\n") + "\n";
+  }
+
+  const lines = (await denops.call("nvim_buf_get_lines", bufnr, 0, -1, false)) as Array<string>;
+  if (changedtick != null) {
+    bufferStates.setSnapshot(bufnr, changedtick, lines);
+  }
+  return lines.join("\n") + "\n";
+};
+
+const parseChangedtick = (value: unknown): number | undefined => {
+  return typeof value === "number" && Number.isInteger(value) ? value : undefined;
+};
+
+const parseLines = (value: unknown): string[] => {
+  if (!Array.isArray(value) || value.some((line) => typeof line !== "string")) {
+    throw new Error("Invalid buffer lines");
+  }
+  return value;
+};
+
+/**
+ * Undo and redo steps can be merged into one counted command (`queue.coalesce = "merge"`)
+ */
+const coalescibleOf = (
+  request: UndoCommandRequest,
+  taskOf: (request: UndoCommandRequest) => QueuedTask,
+): Coalescible | undefined => {
+  if (request.command !== "undo" && request.command !== "redo") {
+    return undefined;
+  }
+  return {
+    key: request.command,
+    count: request.count,
+    withCount: (count) => taskOf({ ...request, count }),
+  };
+};
 
 const executeCondition = async (
   denops: Denops,
-  { command }: { command: Command },
+  { request, bufnr }: { request: UndoCommandRequest; bufnr: number },
 ): Promise<boolean> => {
-  const undoTree = await fn.undotree(denops) as unknown as UndoTree;
-  if (
-    undoTree.entries.length === 0 ||
-    (command === "redo" &&
-      !undoTree.entries.some((entry) => entry.curhead != null)) ||
-    (command === "undo" && undoTree.entries[0].curhead != null)
-  ) {
-    return false;
-  } else {
-    return true;
-  }
+  const undoTree = await fn.undotree(denops, bufnr) as unknown as UndoTree;
+  return canExecute(undoTree, request);
 };
 
 const getPreCodeAndPostCode = async ({
   denops,
-  command,
-  counterCommand,
+  request,
   bufnr,
+  changedtick,
 }: {
   denops: Denops;
-  command: string;
-  counterCommand: string;
+  request: UndoCommandRequest;
   bufnr: number;
+  changedtick?: number;
 }): Promise<void> => {
+  const command = toExCommand(request);
   const perf = debugMode ? createPerformanceMonitor() : null;
 
   try {
-    // Clear the diff optimizer cache to ensure fresh calculations
-    diffOptimizer.clearCache();
-
     // Get current buffer content
-    const currentCode = ((await fn.getline(denops, 1, "$")) as Array<string>).join("\n") + "\n";
+    const currentCode = await readBufferCode(denops, bufnr, changedtick);
 
     perf?.mark("bufferRead");
 
-    // Execute command to get post state
-    await denops.cmd(`silent ${command}`);
-    const afterCode = ((await fn.getline(denops, 1, "$")) as Array<string>).join("\n") + "\n";
-
-    // Revert to get back to pre state
-    await denops.cmd(`silent ${counterCommand}`);
+    // Run the command in a shadow buffer to get the post state.
+    // The visible buffer is left untouched; the executor runs the real command once.
+    const [afterCode] = await undoStateReader.readStates(denops, bufnr, [command]);
 
     // Store the states based on command type
     // For undo: currentCode is "before undo", afterCode is "after undo"
     // For redo: currentCode is "before redo", afterCode is "after redo"
-    bufferStates.set(bufnr, currentCode, afterCode);
+    bufferStates.set(bufnr, currentCode, afterCode, changedtick);
 
     if (debugMode) {
       console.log(`[highlight-undo] Stored buffer state for bufnr ${bufnr}, command: ${command}`);
@@ -109,7 +166,9 @@ export const main = async (denops: Denops): Promise<void> => {
   denops.dispatcher = {
     setup: async (_config: unknown): Promise<void> => {
       try {
-        config = validateConfig(_config);
+        const warnings: ConfigDiagnostic[] = [];
+        config = validateConfig(_config, warnings);
+        await errorHandler.reportDiagnostics(denops, warnings);
         debugMode = config.debug === true;
         // Set global debug mode for other modules
         (globalThis as { debugMode?: boolean }).debugMode = debugMode;
@@ -132,12 +191,32 @@ export const main = async (denops: Denops): Promise<void> => {
         }
 
         // Initialize the executor
+        commandQueue = createCommandQueue({ ...config.queue });
+        configResolver = createConfigResolver(config);
+        configStore = createConfigStore(config);
+        // Runtime updates reach the next command; `debug` and the Lua side mappings stay as set up
+        configStore.on("config:changed", (next, previous) => {
+          config = next;
+          configResolver.update(next);
+          commandQueue.configure({ ...next.queue });
+          if (next.logFile !== previous.logFile) {
+            errorHandler.setLogFile(next.logFile);
+          }
+        });
+        clearingPolicy = createClearingPolicy({
+          highlightBatcher,
+          highlightAnimator,
+          config: configResolver,
+          nameSpace,
+        });
         highlightExecutor = createHighlightCommandExecutor({
           bufferStates,
           diffOptimizer,
           highlightBatcher,
+          highlightAnimator,
+          clearingPolicy,
           errorHandler,
-          config,
+          config: configResolver,
           nameSpace,
           debugMode,
         });
@@ -149,96 +228,93 @@ export const main = async (denops: Denops): Promise<void> => {
       }
     },
 
-    preExec: async (
-      command: unknown,
-      counterCommand: unknown,
-    ): Promise<void> => {
+    // Merge `partial` into the current config, an invalid update is rejected and changes nothing
+    updateConfig: async (partial: unknown): Promise<Config> => {
       if (config == null) {
         throw new Error("Please call setup() first.");
       }
 
-      const bufnr = (await fn.bufnr(denops, "%")) as number;
+      const warnings: ConfigDiagnostic[] = [];
+      let updated: Config;
+      try {
+        updated = configStore.update(partial, warnings);
+      } catch (error) {
+        await errorHandler.handle(denops, error, { phase: "updateConfig" });
+        throw error;
+      }
+      await errorHandler.reportDiagnostics(denops, warnings);
+      await denops.cmd("silent doautocmd <nomodeline> User HighlightUndoConfigChanged");
+      return updated;
+    },
 
-      // Use lock to prevent concurrent access to buffer state
-      await lockManager.acquire(`buffer-${bufnr}`, async () => {
-        if (!(await executeCondition(denops, { command: command as Command }))) {
-          return;
-        }
+    getConfig: (): Promise<Config> => {
+      if (config == null) {
+        throw new Error("Please call setup() first.");
+      }
 
-        await getPreCodeAndPostCode({
-          denops,
-          command: command as string,
-          counterCommand: counterCommand as string,
-          bufnr,
-        });
-      });
+      return Promise.resolve(config);
     },
 
-    preExecWithCheck: async (
+    preExec: async (
       command: unknown,
-      counterCommand: unknown,
+      _counterCommand: unknown,
+      arg?: unknown,
+      changedtick?: unknown,
     ): Promise<void> => {
       if (config == null) {
         throw new Error("Please call setup() first.");
       }
 
+      const request = parseUndoCommandRequest(command, arg);
       const bufnr = (await fn.bufnr(denops, "%")) as number;
-      let hasRemovals = false;
 
       // Use lock to prevent concurrent access to buffer state
       await lockManager.acquire(`buffer-${bufnr}`, async () => {
-        if (!(await executeCondition(denops, { command: command as Command }))) {
+        if (!(await executeCondition(denops, { request, bufnr }))) {
           return;
         }
 
         await getPreCodeAndPostCode({
           denops,
-          command: command as string,
-          counterCommand: counterCommand as string,
+          request,
           bufnr,
+          changedtick: parseChangedtick(changedtick),
         });
-
-        // Check if there will be removals
-        const state = bufferStates.get(bufnr);
-        if (state) {
-          const diffResult = diffOptimizer.calculateDiff(
-            state.preCode,
-            state.postCode,
-            config.threshold,
-          );
-
-          if (diffResult) {
-            hasRemovals = diffResult.changes.some((c) => c.removed);
-            if (debugMode) {
-              console.log(`[highlight-undo] Has removals: ${hasRemovals}`);
-            }
-          }
-        }
       });
-
-      // Set the result as a Vim global variable
-      await denops.cmd(`let g:highlight_undo_has_removals = ${hasRemovals ? 1 : 0}`);
     },
 
-    exec: async (command: unknown, _counterCommand: unknown): Promise<void> => {
+    exec: async (command: unknown, _counterCommand: unknown, arg?: unknown): Promise<void> => {
       if (config == null) {
         throw new Error("Please call setup() first.");
       }
 
+      const request = parseUndoCommandRequest(command, arg);
       const bufnr = (await fn.bufnr(denops, "%")) as number;
 
+      // Merged commands cover steps whose states were never captured, and a command sent while an earlier one
+      // was highlighted has states from before that one ran: both are read again first
+      const taskOf = (queued: UndoCommandRequest): QueuedTask => async (signal) => {
+        await lockManager.acquire(`buffer-${bufnr}`, async () => {
+          const changedtick = (await fn.getbufvar(denops, bufnr, "changedtick")) as number;
+          const stale = queued !== request || bufferStates.get(bufnr)?.changedtick !== changedtick;
+          if (stale && await executeCondition(denops, { request: queued, bufnr })) {
+            await getPreCodeAndPostCode({ denops, request: queued, bufnr, changedtick });
+          }
+        });
+        await highlightExecutor.execute(denops, queued, bufnr, signal);
+      };
+
       // Queue the command for execution
-      await commandQueue.enqueue(bufnr, async () => {
-        await highlightExecutor.execute(denops, command as string, bufnr);
-      });
+      await commandQueue.enqueue(bufnr, taskOf(request), coalescibleOf(request, taskOf));
     },
 
     // Show highlight only (no command execution)
-    showHighlightOnly: async (command: unknown, _counterCommand: unknown): Promise<void> => {
+    showHighlightOnly: async (command: unknown, _counterCommand: unknown, arg?: unknown): Promise<void> => {
       if (config == null) {
         throw new Error("Please call setup() first.");
       }
 
+      const request = parseUndoCommandRequest(command, arg);
       const bufnr = (await fn.bufnr(denops, "%")) as number;
       const state = bufferStates.get(bufnr);
 
@@ -251,10 +327,12 @@ export const main = async (denops: Denops): Promise<void> => {
 
       // Don't clear buffer state yet - Neovim will execute the command later
 
+      const bufferConfig = await configResolver.resolve(denops, bufnr);
       const diffResult = diffOptimizer.calculateDiff(
         state.preCode,
         state.postCode,
-        config.threshold,
+        bufferConfig.threshold,
+        diffOptionsOf(bufferConfig),
       );
 
       if (!diffResult) {
@@ -262,12 +340,18 @@ export const main = async (denops: Denops): Promise<void> => {
       }
 
       const { lineInfo } = diffResult;
-      const isUndo = command === "undo";
+      const isUndo = isBackwardCommand(request.command);
 
       // Only show highlights, don't execute command
-      if (isUndo && config.enabled.removed && diffResult.changes.some((c) => c.removed)) {
+      if (isUndo && bufferConfig.enabled.removed && hasUnpairedRemovals(diffResult.changes)) {
         // Show what will be removed
-        await commandQueue.enqueue(bufnr, async () => {
+        await commandQueue.enqueue(bufnr, async (signal) => {
+          // Dropped by the queue policy, Neovim runs the command itself
+          if (signal.aborted) {
+            bufferStates.clear(bufnr);
+            return;
+          }
+
           const perf = debugMode ? createPerformanceMonitor() : null;
 
           const removedRanges = computeRanges({
@@ -275,7 +359,8 @@ export const main = async (denops: Denops): Promise<void> => {
             beforeCode: state.preCode,
             afterCode: state.postCode,
             changeType: "removed",
-          });
+            pairReplacements: true,
+          }).filter((range) => range.changeType !== "changed");
 
           const filledRanges = fillRangeGaps({
             ranges: removedRanges,
@@ -290,7 +375,7 @@ export const main = async (denops: Denops): Promise<void> => {
 
           if (filledRanges.length > 0) {
             // Apply range adjustments before encoding conversion
-            const adjustedRanges = applyRangeAdjustments(filledRanges, config);
+            const adjustedRanges = applyRangeAdjustments(filledRanges, bufferConfig);
 
             if (debugMode) {
               console.log(`[highlight-undo] Adjusted ranges:`, JSON.stringify(adjustedRanges));
@@ -301,19 +386,26 @@ export const main = async (denops: Denops): Promise<void> => {
               denops,
               convertedRanges,
               nameSpace,
-              config.highlight.removed,
+              bufnr,
+              bufferConfig.highlight.removed,
+              { moved: highlightGroupsOf(bufferConfig).moved },
             );
+            const signOptions = signOptionsOf(bufferConfig);
+            if (signOptions) {
+              await highlightBatcher.applySigns(
+                denops,
+                computeSignMarkers(convertedRanges),
+                nameSpace,
+                bufnr,
+                signOptions,
+              );
+            }
 
-            // Schedule highlight clearing after duration
-            setTimeout(async () => {
-              try {
-                await highlightBatcher.clearHighlights(denops, nameSpace, bufnr);
-                // Clear buffer state after highlights are cleared
-                bufferStates.clear(bufnr);
-              } catch (error) {
-                console.error(`[highlight-undo] Error clearing highlights:`, error);
-              }
-            }, config.duration);
+            // Clear after the duration or on the configured event, without holding up the queue.
+            // The buffer state is cleared together with the highlights
+            clearingPolicy.afterHighlight(denops, bufnr, () => bufferStates.clear(bufnr)).catch((error) => {
+              console.error(`[highlight-undo] Error clearing highlights:`, error);
+            });
           }
 
           if (perf) {
@@ -321,7 +413,7 @@ export const main = async (denops: Denops): Promise<void> => {
             console.log(`[highlight-undo] Highlight only: ${formatPerformanceMetrics(metrics)}`);
           }
         });
-      } else if (!isUndo && config.enabled.added && diffResult.changes.some((c) => c.added)) {
+      } else if (!isUndo && bufferConfig.enabled.added && diffResult.changes.some((c) => c.added)) {
         // For redo, we would show additions, but since command executes after highlight,
         // we need to handle this differently
         // Clear buffer state since we won't use it
@@ -332,12 +424,97 @@ export const main = async (denops: Denops): Promise<void> => {
       }
     },
 
+    // Compute the diff between two undo states without leaving the current one
+    previewBetween: async (seqA: unknown, seqB: unknown): Promise<PreviewResult | null> => {
+      if (config == null) {
+        throw new Error("Please call setup() first.");
+      }
+
+      const from = parseUndoSeq(seqA);
+      const to = parseUndoSeq(seqB);
+      const bufnr = (await fn.bufnr(denops, "%")) as number;
+
+      return await lockManager.acquire(`buffer-${bufnr}`, async () => {
+        const undoTree = await fn.undotree(denops, bufnr) as unknown as UndoTree;
+        for (const seq of [from, to]) {
+          if (seq > undoTree.seq_last) {
+            throw new Error(`Undo sequence ${seq} does not exist (last: ${undoTree.seq_last})`);
+          }
+        }
+
+        const [beforeCode, afterCode] = await undoStateReader.readStates(denops, bufnr, [
+          `undo ${from}`,
+          `undo ${to}`,
+        ]);
+        const bufferConfig = await configResolver.resolve(denops, bufnr);
+        const diffResult = diffOptimizer.calculateDiff(
+          beforeCode,
+          afterCode,
+          bufferConfig.threshold,
+          diffOptionsOf(bufferConfig),
+        );
+        if (!diffResult) {
+          return null;
+        }
+
+        return {
+          ...diffResult,
+          addedRanges: computeRanges({ changes: diffResult.changes, beforeCode, afterCode, changeType: "added" }),
+          removedRanges: computeRanges({ changes: diffResult.changes, beforeCode, afterCode, changeType: "removed" }),
+        };
+      });
+    },
+
+    // Seed the line snapshot of a buffer attached with nvim_buf_attach
+    initSnapshot: (bufnr: unknown, changedtick: unknown, lines: unknown): Promise<void> => {
+      const tick = parseChangedtick(changedtick);
+      if (typeof bufnr === "number" && tick != null) {
+        bufferStates.setSnapshot(bufnr, tick, parseLines(lines));
+      }
+      return Promise.resolve();
+    },
+
+    // Replay an on_lines event (or a bare changedtick bump) on the snapshot
+    updateSnapshot: (
+      bufnr: unknown,
+      changedtick: unknown,
+      firstLine?: unknown,
+      lastLine?: unknown,
+      lines?: unknown,
+    ): Promise<void> => {
+      const tick = parseChangedtick(changedtick);
+      if (typeof bufnr !== "number" || tick == null) {
+        return Promise.resolve();
+      }
+
+      const applied = typeof firstLine === "number" && typeof lastLine === "number"
+        ? bufferStates.applyLineEvent(bufnr, tick, { firstLine, lastLine, lines: parseLines(lines) })
+        : bufferStates.applyLineEvent(bufnr, tick);
+
+      if (!applied && debugMode) {
+        console.log(`[highlight-undo] Ignored snapshot event for bufnr ${bufnr} at tick ${tick}`);
+      }
+      return Promise.resolve();
+    },
+
+    // Clear the highlights of a buffer (current buffer by default), used by the clear policies
+    clearHighlights: async (bufnr?: unknown): Promise<void> => {
+      if (clearingPolicy == null) {
+        throw new Error("Please call setup() first.");
+      }
+
+      const target = typeof bufnr === "number" && bufnr > 0 ? bufnr : (await fn.bufnr(denops, "%")) as number;
+      await clearingPolicy.clear(denops, target);
+    },
+
     // Buffer cleanup
     bufferDelete: (...args: unknown[]): Promise<void> => {
       const bufnr = args[0];
       if (typeof bufnr === "number") {
         bufferStates.clear(bufnr);
+        bufferStates.clearSnapshot(bufnr);
         commandQueue.clearBuffer(bufnr);
+        configResolver?.invalidate(bufnr);
       }
       return Promise.resolve();
     },
@@ -347,6 +524,7 @@ export const main = async (denops: Denops): Promise<void> => {
       return Promise.resolve({
         buffers: bufferStates.getStats(),
         queue: commandQueue.getStats(),
+        diff: diffOptimizer.getStats(),
         locks: lockManager.getLockedResources(),
       });
     },
@@ -2,6 +2,8 @@ import { assertEquals } from "./deps.ts";
 import { describe, it } from "./deps.ts";
 import { stub } from "./deps.ts";
 import type { Denops } from "./deps.ts";
+import { main } from "./main.ts";
+import { defaultConfig } from "./config-schema.ts";
 
 describe("main.ts", () => {
   describe("highlight logic", () => {
@@ -104,4 +106,113 @@ describe("main.ts", () => {
       mockClearHighlights.restore();
     });
   });
+
+  describe("dispatcher", () => {
+    // Buffer 1 with the undo states `states`, at the last one. `_execute` moves through them.
+    // Reads without an explicit buffer see another, empty one, as after a buffer switch
+    const createFakeBuffer = (states: string[]) => {
+      const buffer = { seq: states.length - 1, tick: 5, log: [] as string[] };
+      const apply = (seq: number, command: string) => (command === "undo" ? seq - 1 : seq + 1);
+      const denops = {
+        name: "highlight-undo",
+        cmd: () => Promise.resolve(),
+        call: (fn: string, ...args: unknown[]) => {
+          switch (fn) {
+            case "nvim_create_namespace":
+            case "bufnr":
+              return Promise.resolve(1);
+            case "undotree":
+              return Promise.resolve(
+                args[0] === 1
+                  ? { seq_cur: buffer.seq, seq_last: states.length - 1, entries: [{ seq: 1 }] }
+                  : { seq_cur: 0, seq_last: 0, entries: [] },
+              );
+            case "getbufvar":
+              return Promise.resolve(args[1] === "changedtick" ? buffer.tick : "");
+            case "getline":
+              return Promise.resolve([""]);
+            case "nvim_buf_get_lines":
+              return Promise.resolve(args[0] === 1 ? states[buffer.seq].split("\n").slice(0, -1) : [""]);
+            case "nvim_echo":
+              buffer.log.push(`echo ${(args[0] as Array<[string, string]>).map(([text]) => text).join("")}`);
+              return Promise.resolve(null);
+          }
+          const [expr, luaArgs] = args as [string, unknown[]];
+          if (expr.includes("read_states")) {
+            const commands = luaArgs[1] as string[];
+            return Promise.resolve(
+              commands.map((command) => states[apply(buffer.seq, command)].split("\n").slice(0, -1)),
+            );
+          }
+          const name = expr.match(/\._(\w+)\(/)?.[1];
+          if (name === "execute") {
+            buffer.seq = apply(buffer.seq, luaArgs[1] as string);
+            buffer.tick++;
+            buffer.log.push(`execute ${luaArgs[1]} -> ${buffer.tick}`);
+            return Promise.resolve(buffer.tick);
+          }
+          if (name === "apply_highlights") {
+            buffer.log.push(`highlight at ${luaArgs[4]}`);
+            return Promise.resolve(luaArgs[4] === buffer.tick);
+          }
+          if (name) {
+            buffer.log.push(name);
+          }
+          return Promise.resolve(null);
+        },
+      } as unknown as Denops;
+      return { buffer, denops };
+    };
+
+    const waitFor = async (condition: () => boolean): Promise<void> => {
+      for (let i = 0; i < 200 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    it("should let a second undo cut the highlight of the first one short", async () => {
+      const duration = 5000;
+      const { buffer, denops } = createFakeBuffer(["a\n", "a\nb\n", "a\nb\nc\n"]);
+      await main(denops);
+      await denops.dispatcher.setup({ ...defaultConfig, duration });
+      const started = Date.now();
+
+      // Holding `u`: Lua captures the states with a request and sends exec as a notify, so nothing waits for it
+      await denops.dispatcher.preExec("undo", "redo", 1, 5);
+      const first = denops.dispatcher.exec("undo", "redo", 1);
+      await waitFor(() => buffer.log.includes("highlight at 5"));
+      await denops.dispatcher.preExec("undo", "redo", 1, 5);
+      await denops.dispatcher.exec("undo", "redo", 1);
+      await waitFor(() => buffer.log.includes("highlight at 6"));
+
+      // The second undo is highlighted on the text left by the first one; deleting the buffer ends its wait
+      await denops.dispatcher.bufferDelete(1);
+      await first;
+
+      assertEquals(buffer.log, [
+        "highlight at 5",
+        "execute undo -> 6",
+        "clear_highlights",
+        "highlight at 6",
+        "execute undo -> 7",
+        "clear_highlights",
+      ]);
+      assertEquals(Date.now() - started < duration, true);
+    });
+
+    it("should finish setup when an option key is misspelled", async () => {
+      const { buffer, denops } = createFakeBuffer(["a\n", "a\nb\n"]);
+      await main(denops);
+
+      await denops.dispatcher.setup({ ...defaultConfig, durration: 100 });
+
+      assertEquals(
+        buffer.log,
+        [
+          '[highlight-undo] Warning in durration: unknown key, ignored (did you mean "duration"?)',
+        ].map((line) => `echo ${line}`),
+      );
+      assertEquals(await denops.dispatcher.getConfig(), defaultConfig);
+    });
+  });
 });
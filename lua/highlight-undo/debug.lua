@@ -31,7 +31,7 @@ end
 
 -- Show current configuration
 function M.show_config()
-  local config = vim.g.highlight_undo_config or {}
+  local config = require('highlight-undo').get_config() or {}
   print('[highlight-undo] Current configuration:')
   print(vim.inspect(config))
 end
@@ -0,0 +1,86 @@
+-- Generated from config-schema.ts by `deno task generate:config`, do not edit
+
+---@type highlight-undo.Config
+return {
+  mappings = {
+    undo = 'u',
+    redo = '<C-r>',
+    earlier = 'g-',
+    later = 'g+',
+  },
+  enabled = {
+    added = true,
+    removed = true,
+  },
+  highlight = {
+    added = 'DiffAdd',
+    removed = 'DiffDelete',
+    moved = 'DiffChange',
+    changed = 'DiffText',
+  },
+  threshold = {
+    line = 50,
+    char = 1500,
+  },
+  duration = 200,
+  clear = 'timer',
+  display = {
+    removed = 'delay',
+  },
+  animation = {
+    enabled = false,
+    steps = 10,
+    easing = 'ease-out',
+  },
+  jump = {
+    target = 'none',
+    indicator = 'none',
+  },
+  signs = {
+    enabled = false,
+    text = {
+      added = '+',
+      removed = '-',
+      changed = '~',
+      moved = '>',
+    },
+    numhl = false,
+    linehl = false,
+  },
+  windows = {
+    sync = 'none',
+  },
+  queue = {
+    coalesce = 'cancel',
+    maxDepth = 10,
+    staleTimeout = 5000,
+    overflow = 'drop-oldest',
+  },
+  rangeAdjustments = {
+    adjustWordBoundaries = true,
+    handleWhitespace = true,
+  },
+  diff = {
+    algorithm = 'myers',
+  },
+  heuristics = {
+    enabled = true,
+    thresholds = {
+      tiny = 5,
+      small = 20,
+      medium = 100,
+    },
+    strategies = {
+      tiny = 'character',
+      small = 'word',
+      medium = 'line',
+      large = 'block',
+    },
+    granularity = {
+      tiny = 'character',
+      small = 'word',
+      medium = 'word',
+      large = 'word',
+    },
+  },
+}
@@ -1,17 +1,39 @@
 local M = {}
 
+-- Text replaced by the currently highlighted "changed" ranges, per buffer.
+-- Positions are read from the extmarks, so they follow edits made while highlighted
+---@type table<number, {namespace: number, mark_id: number, old_text: string}[]>
+local changed_text = {}
+
+---@param bufnr number
+---@return number
+local function resolve_buf(bufnr)
+  return (bufnr == nil or bufnr == 0) and vim.api.nvim_get_current_buf() or bufnr
+end
+
+-- Positions were computed for b:changedtick {changedtick}, they no longer match once the buffer changed
+---@param bufnr number
+---@param changedtick? number
+---@return boolean
+local function is_stale(bufnr, changedtick)
+  return type(changedtick) == 'number' and vim.api.nvim_buf_get_changedtick(bufnr) ~= changedtick
+end
+
 -- Apply highlights to multiple ranges
 ---@param namespace number
+---@param bufnr number
 ---@param highlight_group string
 ---@param ranges table[] Array of {lnum, col_start, col_end}
-function M.apply_highlights(namespace, highlight_group, ranges)
+function M.apply_highlights(namespace, bufnr, highlight_group, ranges)
   if not ranges or #ranges == 0 then
     return
   end
 
   -- Schedule the highlight application to avoid conflicts with other plugins
   vim.schedule(function()
-    local bufnr = 0 -- current buffer
+    if not vim.api.nvim_buf_is_valid(bufnr) then
+      return
+    end
 
     for _, range in ipairs(ranges) do
       -- Get the actual line to check its length
@@ -34,7 +56,7 @@ function M.apply_highlights(namespace, highlight_group, ranges)
             {
               end_row = range.lnum - 1,
               end_col = end_col,
-              hl_group = highlight_group,
+              hl_group = range.hl_group or highlight_group,
               -- ephemeral = true, -- Remove ephemeral
             }
           )
@@ -52,27 +74,37 @@ end
 
 -- Clear all highlights in namespace
 ---@param namespace number
----@param bufnr? number Buffer number (0 for current)
+---@param bufnr number Buffer number (0 for current)
 function M.clear_highlights(namespace, bufnr)
-  bufnr = bufnr or 0
+  bufnr = resolve_buf(bufnr)
   vim.schedule(function()
-    vim.api.nvim_buf_clear_namespace(bufnr, namespace, 0, -1)
+    changed_text[bufnr] = nil
+    if vim.api.nvim_buf_is_valid(bufnr) then
+      vim.api.nvim_buf_clear_namespace(bufnr, namespace, 0, -1)
+    end
   end)
 end
 
 -- Batch apply highlights with optimization
 ---@param namespace number
----@param highlight_group string
+---@param bufnr number Buffer number (0 for current)
+---@param highlight_group string Default group, ranges may override it with `hl_group` (e.g. moved lines)
 ---@param ranges table[] Array of ranges
+---@param changedtick? number Nothing is placed when the buffer changed since this tick
 ---@return boolean success
-function M.batch_apply_highlights(namespace, highlight_group, ranges)
-  if not ranges or #ranges == 0 then
+function M.batch_apply_highlights(namespace, bufnr, highlight_group, ranges, changedtick)
+  bufnr = resolve_buf(bufnr)
+  if not ranges or #ranges == 0 or not vim.api.nvim_buf_is_valid(bufnr) then
     return true
   end
+  if is_stale(bufnr, changedtick) then
+    return false
+  end
 
   -- Apply highlights immediately without scheduling
   -- Clear existing highlights in the namespace before applying new ones
-  vim.api.nvim_buf_clear_namespace(0, namespace, 0, -1)
+  vim.api.nvim_buf_clear_namespace(bufnr, namespace, 0, -1)
+  changed_text[bufnr] = nil
 
   -- Check if highlight group exists and get its properties
   local hl_exists = vim.fn.hlexists(highlight_group) == 1
@@ -80,6 +112,12 @@ function M.batch_apply_highlights(namespace, highlight_group, ranges)
     vim.api.nvim_err_writeln("[highlight-undo] ERROR: Highlight group '" .. highlight_group .. "' does not exist!")
     return
   end
+  for _, range in ipairs(ranges) do
+    if range.hl_group and vim.fn.hlexists(range.hl_group) == 0 then
+      vim.api.nvim_err_writeln("[highlight-undo] ERROR: Highlight group '" .. range.hl_group .. "' does not exist!")
+      range.hl_group = nil
+    end
+  end
 
   -- Get highlight group properties for debugging
   -- Commenting out to reduce noise
@@ -117,10 +155,15 @@ function M.batch_apply_highlights(namespace, highlight_group, ranges)
           lnum = range.lnum,
           col_start = range.col_start,
           col_end = range.col_end,
+          hl_group = range.hl_group,
+          old_text = range.old_text,
         }
-      elseif range.col_start <= current.col_end then
-        -- Overlapping or adjacent ranges, merge them
+      elseif range.col_start <= current.col_end and range.hl_group == current.hl_group then
+        -- Overlapping or adjacent ranges of the same group, merge them
         current.col_end = math.max(current.col_end, range.col_end)
+        if range.old_text then
+          current.old_text = (current.old_text or '') .. range.old_text
+        end
       else
         -- Non-overlapping range, save current and start new
         table.insert(merged_ranges, current)
@@ -128,6 +171,8 @@ function M.batch_apply_highlights(namespace, highlight_group, ranges)
           lnum = range.lnum,
           col_start = range.col_start,
           col_end = range.col_end,
+          hl_group = range.hl_group,
+          old_text = range.old_text,
         }
       end
     end
@@ -156,7 +201,7 @@ function M.batch_apply_highlights(namespace, highlight_group, ranges)
         -- end
 
         -- Get the actual line to check its length
-        local line = vim.api.nvim_buf_get_lines(0, range.lnum - 1, range.lnum, false)[1]
+        local line = vim.api.nvim_buf_get_lines(bufnr, range.lnum - 1, range.lnum, false)[1]
         if line then
           -- Ensure columns are within valid range
           -- Neovim's extmark API uses byte indices for columns
@@ -170,19 +215,30 @@ function M.batch_apply_highlights(namespace, highlight_group, ranges)
             if start_col == 0 and end_col == 0 then
               -- For deleted lines, we'll use a special marker at the beginning of the line
               -- This will show where the line was deleted
-              local mark_id = vim.api.nvim_buf_set_extmark(0, namespace, range.lnum - 1, 0, {
-                virt_text = { { ' ', highlight_group } },
+              local mark_id = vim.api.nvim_buf_set_extmark(bufnr, namespace, range.lnum - 1, 0, {
+                virt_text = { { ' ', range.hl_group or highlight_group } },
                 virt_text_pos = 'overlay',
                 hl_mode = 'combine',
               })
             else
               -- Normal highlight for text within a line
-              local mark_id = vim.api.nvim_buf_set_extmark(0, namespace, range.lnum - 1, start_col, {
+              local mark_id = vim.api.nvim_buf_set_extmark(bufnr, namespace, range.lnum - 1, start_col, {
                 end_row = range.lnum - 1,
                 end_col = end_col,
-                hl_group = highlight_group,
+                hl_group = range.hl_group or highlight_group,
+                -- Follow edits made while highlighted, text typed at either edge stays outside
+                right_gravity = true,
+                end_right_gravity = false,
                 -- ephemeral = true, -- Remove ephemeral to make highlights persist
               })
+              if range.old_text then
+                changed_text[bufnr] = changed_text[bufnr] or {}
+                table.insert(changed_text[bufnr], {
+                  namespace = namespace,
+                  mark_id = mark_id,
+                  old_text = range.old_text,
+                })
+              end
             end
           end
         else
@@ -195,32 +251,252 @@ function M.batch_apply_highlights(namespace, highlight_group, ranges)
   return true
 end
 
+-- Show removed text as virtual text
+---@param namespace number
+---@param bufnr number Buffer number (0 for current)
+---@param items table[] Array of {lnum, col, virt_text} or {lnum, virt_lines, virt_lines_above}
+---@param changedtick? number Nothing is placed when the buffer changed since this tick
+function M.apply_virtual_text(namespace, bufnr, items, changedtick)
+  if not vim.api.nvim_buf_is_valid(bufnr) or is_stale(bufnr, changedtick) then
+    return
+  end
+
+  -- Inline virtual text needs Neovim 0.10, older versions show it at the end of the line
+  local inline_pos = vim.fn.has('nvim-0.10') == 1 and 'inline' or 'eol'
+  local line_count = vim.api.nvim_buf_line_count(bufnr)
+
+  for _, item in ipairs(items or {}) do
+    if item.lnum >= 1 and item.lnum <= line_count then
+      local col = 0
+      local opts
+      if item.virt_text then
+        local line = vim.api.nvim_buf_get_lines(bufnr, item.lnum - 1, item.lnum, false)[1] or ''
+        col = math.min(item.col, #line)
+        opts = { virt_text = item.virt_text, virt_text_pos = inline_pos }
+      else
+        opts = { virt_lines = item.virt_lines, virt_lines_above = item.virt_lines_above }
+      end
+
+      local ok, err = pcall(vim.api.nvim_buf_set_extmark, bufnr, namespace, item.lnum - 1, col, opts)
+      if not ok then
+        vim.api.nvim_err_writeln(
+          string.format('highlight-undo: Failed to set virtual text at line %d: %s', item.lnum, tostring(err))
+        )
+      end
+    end
+  end
+end
+
+-- Place sign column markers for changed lines
+---@param namespace number
+---@param bufnr number Buffer number (0 for current)
+---@param signs table[] Array of {lnum, sign_text, sign_hl_group, number_hl_group?, line_hl_group?}
+---@param changedtick? number Nothing is placed when the buffer changed since this tick
+function M.apply_signs(namespace, bufnr, signs, changedtick)
+  if not vim.api.nvim_buf_is_valid(bufnr) or is_stale(bufnr, changedtick) then
+    return
+  end
+  local line_count = vim.api.nvim_buf_line_count(bufnr)
+
+  for _, sign in ipairs(signs or {}) do
+    if sign.lnum >= 1 and sign.lnum <= line_count then
+      local ok, err = pcall(vim.api.nvim_buf_set_extmark, bufnr, namespace, sign.lnum - 1, 0, {
+        sign_text = sign.sign_text,
+        sign_hl_group = sign.sign_hl_group,
+        number_hl_group = sign.number_hl_group,
+        line_hl_group = sign.line_hl_group,
+      })
+      if not ok then
+        vim.api.nvim_err_writeln(
+          string.format('highlight-undo: Failed to place sign at line %d: %s', sign.lnum, tostring(err))
+        )
+      end
+    end
+  end
+end
+
+-- Show markers for highlighted changes outside the window, right-aligned on the given lines
+---@param namespace number
+---@param bufnr number Buffer number (0 for current)
+---@param indicators table[] Array of {lnum, text}
+function M.show_indicators(namespace, bufnr, indicators)
+  if not vim.api.nvim_buf_is_valid(bufnr) then
+    return
+  end
+  vim.api.nvim_set_hl(0, 'HighlightUndoIndicator', { link = 'Comment', default = true })
+  local line_count = vim.api.nvim_buf_line_count(bufnr)
+
+  for _, indicator in ipairs(indicators or {}) do
+    if indicator.lnum >= 1 and indicator.lnum <= line_count then
+      pcall(vim.api.nvim_buf_set_extmark, bufnr, namespace, indicator.lnum - 1, 0, {
+        virt_text = { { indicator.text, 'HighlightUndoIndicator' } },
+        virt_text_pos = 'right_align',
+      })
+    end
+  end
+end
+
+-- How long other windows are flashed, in milliseconds
+local FLASH_DURATION = 150
+
+-- Windows being flashed: the 'winhighlight' to restore and the timer restoring it
+---@type table<number, { winhighlight: string, timer: table }>
+local flashes = {}
+
+-- Flash {win} for FLASH_DURATION; a flash of a window already flashing starts over
+-- and still restores the 'winhighlight' from before the first one
+---@param win number
+local function flash_window(win)
+  local pending = flashes[win]
+  if pending and not pending.timer:is_closing() then
+    pending.timer:stop()
+    pending.timer:close()
+  end
+  local original = pending and pending.winhighlight or vim.wo[win].winhighlight
+
+  local flash = 'Normal:HighlightUndoFlash,NormalNC:HighlightUndoFlash'
+  vim.wo[win].winhighlight = original ~= '' and (original .. ',' .. flash) or flash
+
+  local entry = { winhighlight = original, timer = vim.loop.new_timer() }
+  flashes[win] = entry
+  entry.timer:start(
+    FLASH_DURATION,
+    0,
+    vim.schedule_wrap(function()
+      if not entry.timer:is_closing() then
+        entry.timer:close()
+      end
+      -- A later flash took over, it restores the window itself
+      if flashes[win] ~= entry then
+        return
+      end
+      flashes[win] = nil
+      if vim.api.nvim_win_is_valid(win) then
+        vim.wo[win].winhighlight = original
+      end
+    end)
+  )
+end
+
+-- Bring {lnum} into view in the other windows showing {bufnr}, or flash those windows
+---@param bufnr number
+---@param lnum number 1-based line of the first change
+---@param mode 'scroll'|'flash'
+function M.sync_windows(bufnr, lnum, mode)
+  if not vim.api.nvim_buf_is_valid(bufnr) then
+    return
+  end
+  vim.api.nvim_set_hl(0, 'HighlightUndoFlash', { link = 'Visual', default = true })
+  lnum = math.max(1, math.min(lnum, vim.api.nvim_buf_line_count(bufnr)))
+  local current = vim.api.nvim_get_current_win()
+
+  for _, win in ipairs(vim.fn.win_findbuf(bufnr)) do
+    if win ~= current then
+      if mode == 'scroll' then
+        vim.api.nvim_win_call(win, function()
+          if lnum < vim.fn.line('w0') or lnum > vim.fn.line('w$') then
+            vim.api.nvim_win_set_cursor(win, { lnum, 0 })
+            vim.cmd('normal! zz')
+          end
+        end)
+      elseif mode == 'flash' then
+        flash_window(win)
+      end
+    end
+  end
+end
+
+-- Group an extmark was created with, before any fade step re-tagged it
+---@param group string
+---@return string
+local function base_group(group)
+  return (group:gsub('^HighlightUndoFade%d+_', ''))
+end
+
+---@param chunks table[] Virtual text chunks {text, hl_group}
+---@param mapping table<string, string>
+local function retag_chunks(chunks, mapping)
+  for _, chunk in ipairs(chunks) do
+    if type(chunk[2]) == 'string' then
+      chunk[2] = mapping[base_group(chunk[2])] or chunk[2]
+    end
+  end
+end
+
+-- Replace the highlight groups of all extmarks in the namespace, used for fading out
+---@param namespace number
+---@param bufnr number Buffer number (0 for current)
+---@param mapping table<string, string> Original group -> group to use now
+function M.retag_highlights(namespace, bufnr, mapping)
+  if not vim.api.nvim_buf_is_valid(bufnr) then
+    return
+  end
+
+  local marks = vim.api.nvim_buf_get_extmarks(bufnr, namespace, 0, -1, { details = true })
+  for _, mark in ipairs(marks) do
+    local id, row, col, details = mark[1], mark[2], mark[3], mark[4]
+    details.ns_id = nil
+    details.id = id
+    if type(details.hl_group) == 'string' then
+      details.hl_group = mapping[base_group(details.hl_group)] or details.hl_group
+    end
+    if details.virt_text then
+      retag_chunks(details.virt_text, mapping)
+    end
+    for _, line in ipairs(details.virt_lines or {}) do
+      retag_chunks(line, mapping)
+    end
+    pcall(vim.api.nvim_buf_set_extmark, bufnr, namespace, row, col, details)
+  end
+end
+
+-- Text that the highlighted change at a position replaced
+---@param bufnr number Buffer number (0 for current)
+---@param lnum number 1-based line
+---@param col number 0-based byte column
+---@return string|nil
+function M.old_text_at(bufnr, lnum, col)
+  bufnr = resolve_buf(bufnr)
+  for _, entry in ipairs(changed_text[bufnr] or {}) do
+    local mark = vim.api.nvim_buf_get_extmark_by_id(bufnr, entry.namespace, entry.mark_id, { details = true })
+    if #mark > 0 and mark[1] == lnum - 1 and col >= mark[2] and col < (mark[3].end_col or mark[2]) then
+      return entry.old_text
+    end
+  end
+  return nil
+end
+
 -- Bulk apply highlights with added and removed ranges
 ---@param namespace number
+---@param bufnr number Buffer number (0 for current)
 ---@param added_hl string
 ---@param removed_hl string
----@param added_ranges table[] Array of {row, col_start, col_end}
----@param removed_ranges table[] Array of {row, col_start, col_end}
-function M.apply_highlights_bulk(namespace, added_hl, removed_hl, added_ranges, removed_ranges)
+---@param added_ranges table[] Array of {row, col_start, col_end, hl_group?}
+---@param removed_ranges table[] Array of {row, col_start, col_end, hl_group?}
+function M.apply_highlights_bulk(namespace, bufnr, added_hl, removed_hl, added_ranges, removed_ranges)
+  if not vim.api.nvim_buf_is_valid(bufnr) then
+    return
+  end
+
   -- Clear existing highlights
-  vim.api.nvim_buf_clear_namespace(0, namespace, 0, -1)
+  vim.api.nvim_buf_clear_namespace(bufnr, namespace, 0, -1)
 
   -- Apply added highlights
   for _, range in ipairs(added_ranges) do
-    vim.api.nvim_buf_set_extmark(0, namespace, range.row, range.col_start, {
+    vim.api.nvim_buf_set_extmark(bufnr, namespace, range.row, range.col_start, {
       end_row = range.row,
       end_col = range.col_end,
-      hl_group = added_hl,
+      hl_group = range.hl_group or added_hl,
       ephemeral = true,
     })
   end
 
   -- Apply removed highlights
   for _, range in ipairs(removed_ranges) do
-    vim.api.nvim_buf_set_extmark(0, namespace, range.row, range.col_start, {
+    vim.api.nvim_buf_set_extmark(bufnr, namespace, range.row, range.col_start, {
       end_row = range.row,
       end_col = range.col_end,
-      hl_group = removed_hl,
+      hl_group = range.hl_group or removed_hl,
       ephemeral = true,
     })
   end
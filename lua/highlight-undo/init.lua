@@ -3,26 +3,8 @@ require('highlight-undo.types')
 
 local M = {}
 
----@type highlight-undo.Config
-local default_opts = {
-  mappings = {
-    undo = 'u',
-    redo = '<C-r>',
-  },
-  enabled = {
-    added = true,
-    removed = true,
-  },
-  highlight = {
-    added = 'DiffAdd',
-    removed = 'DiffDelete',
-  },
-  threshold = {
-    line = 50,
-    char = 1500,
-  },
-  duration = 200,
-}
+-- Generated from the TypeScript config schema
+local default_opts = require('highlight-undo.defaults')
 
 local config = {}
 local initialized = false
@@ -40,45 +22,78 @@ function M.setup(opts)
   vim.api.nvim_create_autocmd({ 'BufDelete', 'BufUnload' }, {
     group = augroup,
     callback = function(args)
+      require('highlight-undo.snapshot').detach(args.buf)
       vim.fn['highlight_undo#notify']('bufferDelete', { args.buf })
     end,
   })
+  -- Keep line snapshots so the pre-state is read without a round trip
+  vim.api.nvim_create_autocmd('BufEnter', {
+    group = augroup,
+    callback = function(args)
+      require('highlight-undo.snapshot').attach(args.buf)
+    end,
+  })
 
   vim.fn['highlight_undo#request']('setup', { config })
+  require('highlight-undo.snapshot').attach(0)
+
+  -- Commands for chronological jumps, e.g. `:HighlightUndoEarlier 5m`
+  vim.api.nvim_create_user_command('HighlightUndoEarlier', function(args)
+    M.earlier(args.args ~= '' and args.args or nil)
+  end, { nargs = '?' })
+  vim.api.nvim_create_user_command('HighlightUndoLater', function(args)
+    M.later(args.args ~= '' and args.args or nil)
+  end, { nargs = '?' })
+  vim.api.nvim_create_user_command('HighlightUndoGoto', function(args)
+    M.goto_seq(tonumber(args.args))
+  end, { nargs = 1 })
 end
 
-function M.undo()
-  -- Prepare buffer states and check if there will be removals
-  vim.fn['highlight_undo#request']('preExecWithCheck', { 'undo', 'redo' })
+---@param command string
+---@param counter_command string
+---@param arg? string|number Count, or time offset (e.g. `5m`) for earlier/later
+local function run(command, counter_command, arg)
+  -- b:changedtick tells denops whether its line snapshot is current
+  local changedtick = vim.api.nvim_buf_get_changedtick(0)
+  if arg == nil then
+    arg = vim.NIL
+  end
 
-  -- Check the result stored in global variable
-  local has_removals = vim.g.highlight_undo_has_removals or false
+  -- Capture the buffer states before anything runs
+  vim.fn['highlight_undo#request']('preExec', { command, counter_command, arg, changedtick })
 
-  -- Execute based on whether changes will be removed or added
-  if has_removals then
-    -- Use request (synchronous) for removals to ensure proper timing
-    vim.fn['highlight_undo#request']('exec', { 'undo', 'redo' })
-  else
-    -- Use notify (asynchronous) for additions
-    vim.fn['highlight_undo#notify']('exec', { 'undo', 'redo' })
-  end
+  -- Asynchronous, so a later keypress reaches the command queue while this one is highlighted
+  vim.fn['highlight_undo#notify']('exec', { command, counter_command, arg })
+end
+
+-- Undo with highlight, `3u` is highlighted as one aggregated change
+---@param count? number
+function M.undo(count)
+  run('undo', 'redo', count or vim.v.count1)
 end
 
-function M.redo()
-  -- Prepare buffer states and check if there will be removals
-  vim.fn['highlight_undo#request']('preExecWithCheck', { 'redo', 'undo' })
+-- Redo with highlight, `3<C-r>` is highlighted as one aggregated change
+---@param count? number
+function M.redo(count)
+  run('redo', 'undo', count or vim.v.count1)
+end
 
-  -- Check the result stored in global variable
-  local has_removals = vim.g.highlight_undo_has_removals or false
+-- Go to an older text state chronologically (`g-`, `:earlier`)
+---@param arg? string|number Count or time offset such as `10s`, `5m`, `1h`, `1d` or `1f`
+function M.earlier(arg)
+  run('earlier', 'later', arg or vim.v.count1)
+end
 
-  -- Execute based on whether changes will be removed or added
-  if has_removals then
-    -- Use request (synchronous) for removals to ensure proper timing
-    vim.fn['highlight_undo#request']('exec', { 'redo', 'undo' })
-  else
-    -- Use notify (asynchronous) for additions
-    vim.fn['highlight_undo#notify']('exec', { 'redo', 'undo' })
-  end
+-- Go to a newer text state chronologically (`g+`, `:later`)
+---@param arg? string|number Count or time offset such as `10s`, `5m`, `1h`, `1d` or `1f`
+function M.later(arg)
+  run('later', 'earlier', arg or vim.v.count1)
+end
+
+-- Jump to the state after change {seq} (`:undo {seq}`), 0 is the state before any change
+---@param seq number
+function M.goto_seq(seq)
+  run('goto', 'goto', seq)
 end
 
 M.enabled = false
@@ -111,6 +126,22 @@ function M.enable()
     '<Cmd>lua require("highlight-undo").redo()<CR>',
     { noremap = true, silent = true }
   )
+  if config.mappings.earlier ~= '' then
+    vim.keymap.set(
+      'n',
+      config.mappings.earlier,
+      '<Cmd>lua require("highlight-undo").earlier()<CR>',
+      { noremap = true, silent = true }
+    )
+  end
+  if config.mappings.later ~= '' then
+    vim.keymap.set(
+      'n',
+      config.mappings.later,
+      '<Cmd>lua require("highlight-undo").later()<CR>',
+      { noremap = true, silent = true }
+    )
+  end
 end
 
 function M.disable()
@@ -121,6 +152,12 @@ function M.disable()
   M.enabled = false
   vim.keymap.del({ 'n' }, config.mappings.undo)
   vim.keymap.del({ 'n' }, config.mappings.redo)
+  if config.mappings.earlier ~= '' then
+    vim.keymap.del({ 'n' }, config.mappings.earlier)
+  end
+  if config.mappings.later ~= '' then
+    vim.keymap.del({ 'n' }, config.mappings.later)
+  end
 end
 
 function M.toggle()
@@ -135,6 +172,71 @@ function M.toggle()
   end
 end
 
+-- Diff between two undo states without leaving the current one
+---@param seq_a number
+---@param seq_b number
+---@return table|nil result DiffResult with `addedRanges` (in {seq_b}) and `removedRanges` (in {seq_a})
+function M.preview_between(seq_a, seq_b)
+  if not is_initialized() then
+    return nil
+  end
+
+  return vim.fn['highlight_undo#call']('previewBetween', { seq_a, seq_b })
+end
+
+-- Clear the highlights of the current buffer, e.g. with `clear = 'manual'`
+function M.clear()
+  if not is_initialized() then
+    return
+  end
+
+  vim.fn['highlight_undo#notify']('clearHighlights', { vim.api.nvim_get_current_buf() })
+end
+
+-- Text replaced by the highlighted change under the cursor, e.g. for a hover or virtual text
+---@return string|nil
+function M.old_text_at_cursor()
+  local cursor = vim.api.nvim_win_get_cursor(0)
+  return require('highlight-undo.highlighter').old_text_at(0, cursor[1], cursor[2])
+end
+
+-- Change options without running setup() again, e.g. `update_config({ duration = 500 })`.
+-- An invalid update is reported and leaves the config as it was
+---@param opts highlight-undo.Config
+---@return highlight-undo.Config|nil config The config in effect after the update, nil when it was rejected
+function M.update_config(opts)
+  if not is_initialized() then
+    return nil
+  end
+
+  -- A rejected update has already been reported with its diagnostics
+  local ok, result = pcall(vim.fn['highlight_undo#call'], 'updateConfig', { opts })
+  if not ok then
+    return nil
+  end
+
+  -- Mappings live on this side, move them when they change
+  local remap = opts.mappings ~= nil and M.enabled
+  if remap then
+    M.disable()
+  end
+  config = vim.tbl_deep_extend('force', config, opts)
+  if remap then
+    M.enable()
+  end
+  return result
+end
+
+-- Config in effect, after setup() and update_config()
+---@return highlight-undo.Config|nil
+function M.get_config()
+  if not is_initialized() then
+    return nil
+  end
+
+  return vim.fn['highlight_undo#call']('getConfig', {})
+end
+
 -- Get performance stats
 function M.get_stats()
   if not is_initialized() then
@@ -157,9 +259,9 @@ end
 M.debug = require('highlight-undo.debug')
 
 -- Internal function for highlight application (called from TypeScript)
-function M._apply_highlights(namespace, highlight_group, ranges)
+function M._apply_highlights(namespace, bufnr, highlight_group, ranges, changedtick)
   local highlighter = require('highlight-undo.highlighter')
-  return highlighter.batch_apply_highlights(namespace, highlight_group, ranges)
+  return highlighter.batch_apply_highlights(namespace, bufnr, highlight_group, ranges, changedtick)
 end
 
 -- Internal function for clearing highlights (called from TypeScript)
@@ -168,10 +270,49 @@ function M._clear_highlights(namespace, bufnr)
   highlighter.clear_highlights(namespace, bufnr)
 end
 
+-- Internal function for removed text shown as virtual text (called from TypeScript)
+function M._apply_virtual_text(namespace, bufnr, items, changedtick)
+  local highlighter = require('highlight-undo.highlighter')
+  return highlighter.apply_virtual_text(namespace, bufnr, items, changedtick)
+end
+
+-- Internal function for sign column markers (called from TypeScript)
+function M._apply_signs(namespace, bufnr, signs, changedtick)
+  local highlighter = require('highlight-undo.highlighter')
+  highlighter.apply_signs(namespace, bufnr, signs, changedtick)
+end
+
+-- Internal function for off-screen change markers (called from TypeScript)
+function M._show_indicators(namespace, bufnr, indicators)
+  local highlighter = require('highlight-undo.highlighter')
+  highlighter.show_indicators(namespace, bufnr, indicators)
+end
+
+-- Internal function for the other windows showing a buffer (called from TypeScript)
+function M._sync_windows(bufnr, lnum, mode)
+  local highlighter = require('highlight-undo.highlighter')
+  highlighter.sync_windows(bufnr, lnum, mode)
+end
+
+-- Internal function for fading highlights out (called from TypeScript)
+function M._retag_highlights(namespace, bufnr, mapping)
+  local highlighter = require('highlight-undo.highlighter')
+  highlighter.retag_highlights(namespace, bufnr, mapping)
+end
+
+-- Internal function for running the undo command in its buffer (called from TypeScript).
+-- Returns b:changedtick right after the command, before any other change can happen
+function M._execute(bufnr, command)
+  vim.api.nvim_buf_call(bufnr, function()
+    vim.cmd(command)
+  end)
+  return vim.api.nvim_buf_get_changedtick(bufnr)
+end
+
 -- Internal function for bulk highlight application (called from TypeScript)
-function M._apply_highlights_bulk(namespace, added_hl, removed_hl, added_ranges, removed_ranges)
+function M._apply_highlights_bulk(namespace, bufnr, added_hl, removed_hl, added_ranges, removed_ranges)
   local highlighter = require('highlight-undo.highlighter')
-  return highlighter.apply_highlights_bulk(namespace, added_hl, removed_hl, added_ranges, removed_ranges)
+  return highlighter.apply_highlights_bulk(namespace, bufnr, added_hl, removed_hl, added_ranges, removed_ranges)
 end
 
 return M
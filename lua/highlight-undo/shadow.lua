@@ -0,0 +1,51 @@
+local M = {}
+
+-- Run commands in a hidden scratch buffer carrying a copy of the text and undo tree of {bufnr}.
+-- The visible buffer is never modified, so no TextChanged, LSP didChange, marks or cursor moves happen.
+---@param bufnr number
+---@param commands string[] Ex commands to run one after another (e.g. `undo`, `undo 42`)
+---@return string[][] states Buffer lines after each command
+function M.read_states(bufnr, commands)
+  if bufnr == 0 then
+    bufnr = vim.api.nvim_get_current_buf()
+  end
+
+  local undofile = vim.fn.tempname()
+  local eventignore = vim.o.eventignore
+  local shadow = nil
+
+  vim.o.eventignore = 'all'
+  local ok, result = pcall(function()
+    vim.api.nvim_buf_call(bufnr, function()
+      vim.cmd('silent wundo! ' .. vim.fn.fnameescape(undofile))
+    end)
+
+    shadow = vim.api.nvim_create_buf(false, true)
+    -- `:rundo` only accepts the undo file when the text matches the one it was written for
+    vim.api.nvim_buf_set_lines(shadow, 0, -1, false, vim.api.nvim_buf_get_lines(bufnr, 0, -1, false))
+
+    return vim.api.nvim_buf_call(shadow, function()
+      vim.cmd('silent rundo ' .. vim.fn.fnameescape(undofile))
+
+      local states = {}
+      for _, command in ipairs(commands) do
+        vim.cmd('silent ' .. command)
+        table.insert(states, vim.api.nvim_buf_get_lines(shadow, 0, -1, false))
+      end
+      return states
+    end)
+  end)
+  vim.o.eventignore = eventignore
+
+  if shadow ~= nil and vim.api.nvim_buf_is_valid(shadow) then
+    vim.api.nvim_buf_delete(shadow, { force = true })
+  end
+  vim.fn.delete(undofile)
+
+  if not ok then
+    error(result)
+  end
+  return result
+end
+
+return M
@@ -0,0 +1,66 @@
+local M = {}
+
+---@type table<number, boolean>
+local attached = {}
+
+local function notify(method, args)
+  -- on_lines runs under textlock, the RPC notification is sent outside of it
+  vim.schedule(function()
+    vim.fn['highlight_undo#notify'](method, args)
+  end)
+end
+
+local function send_snapshot(bufnr)
+  notify('initSnapshot', {
+    bufnr,
+    vim.api.nvim_buf_get_changedtick(bufnr),
+    vim.api.nvim_buf_get_lines(bufnr, 0, -1, false),
+  })
+end
+
+-- Keep a line-array model of {bufnr} on the denops side, updated from line events.
+-- Each event carries b:changedtick so the model is only used while it is current.
+---@param bufnr number
+function M.attach(bufnr)
+  if bufnr == 0 then
+    bufnr = vim.api.nvim_get_current_buf()
+  end
+  if attached[bufnr] or not vim.api.nvim_buf_is_loaded(bufnr) or vim.bo[bufnr].buftype ~= '' then
+    return
+  end
+
+  local ok = vim.api.nvim_buf_attach(bufnr, false, {
+    on_lines = function(_, buf, tick, first, last_old, last_new)
+      if not attached[buf] then
+        return true
+      end
+      notify('updateSnapshot', { buf, tick, first, last_old, vim.api.nvim_buf_get_lines(buf, first, last_new, false) })
+    end,
+    on_changedtick = function(_, buf, tick)
+      if not attached[buf] then
+        return true
+      end
+      notify('updateSnapshot', { buf, tick })
+    end,
+    on_reload = function(_, buf)
+      send_snapshot(buf)
+    end,
+    on_detach = function(_, buf)
+      attached[buf] = nil
+    end,
+  })
+  if not ok then
+    return
+  end
+
+  attached[bufnr] = true
+  send_snapshot(bufnr)
+end
+
+-- Stop sending line events for {bufnr}, the attachment ends on the next event
+---@param bufnr number
+function M.detach(bufnr)
+  attached[bufnr] = nil
+end
+
+return M
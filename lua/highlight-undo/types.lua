@@ -1,5 +1,4 @@
--- Type definitions for highlight-undo configuration
--- Should be kept in sync with config-schema.ts
+-- Generated from config-schema.ts by `deno task generate:config`, do not edit
 
 ---@class highlight-undo.Config
 ---@field public mappings? highlight-undo.Mappings
@@ -7,14 +6,26 @@
 ---@field public highlight? highlight-undo.Highlight
 ---@field public threshold? highlight-undo.Threshold
 ---@field public duration? number
+---@field public clear? "timer" | "cursor_moved" | "insert_enter" | "next_change" | "manual" When highlights are cleared
+---@field public display? highlight-undo.Display
+---@field public animation? highlight-undo.Animation
+---@field public jump? highlight-undo.Jump
+---@field public signs? highlight-undo.Signs
+---@field public windows? highlight-undo.Windows
+---@field public queue? highlight-undo.Queue
+---@field public strict? boolean Reject the config on unknown keys instead of warning about them
 ---@field public debug? boolean
 ---@field public logFile? string
 ---@field public rangeAdjustments? highlight-undo.RangeAdjustments
+---@field public diff? highlight-undo.Diff
 ---@field public heuristics? highlight-undo.Heuristics
+---@field public filetypes? table<string, highlight-undo.Config> Settings per 'filetype', merged over the global ones
 
 ---@class highlight-undo.Mappings
 ---@field public undo? string
 ---@field public redo? string
+---@field public earlier? string Mapping for chronological undo (`g-`), empty string to disable
+---@field public later? string Mapping for chronological redo (`g+`), empty string to disable
 
 ---@class highlight-undo.Enabled
 ---@field public added? boolean
@@ -23,19 +34,59 @@
 ---@class highlight-undo.Highlight
 ---@field public added? string
 ---@field public removed? string
+---@field public moved? string Lines moved elsewhere, shown at their origin and destination
+---@field public changed? string Text that replaced other text, shown after the command
 
 ---@class highlight-undo.Threshold
 ---@field public line? number
 ---@field public char? number
 
+---@class highlight-undo.Display
+---@field public removed? "delay" | "virtual" Delay the command to show removed text, or run it and show the text as virtual text
+
+---@class highlight-undo.Animation
+---@field public enabled? boolean Fade highlights out over `duration` instead of removing them at once
+---@field public steps? integer Number of intermediate colors
+---@field public easing? "linear" | "ease" | "ease-in" | "ease-out" | "ease-in-out"
+---@field public curve? number[] Cubic bezier control points {x1, y1, x2, y2}, overrides `easing`
+
+---@class highlight-undo.Jump
+---@field public target? "none" | "first" | "nearest" Move the cursor to the first highlighted change, or the one nearest to it
+---@field public indicator? "none" | "virtual_text" | "notify" Report highlighted changes outside the window
+
+---@class highlight-undo.Signs
+---@field public enabled? boolean Mark changed lines in the sign column
+---@field public text? highlight-undo.SignsText
+---@field public numhl? boolean Also highlight the line number
+---@field public linehl? boolean Also highlight the whole line
+
+---@class highlight-undo.SignsText
+---@field public added? string
+---@field public removed? string
+---@field public changed? string
+---@field public moved? string
+
+---@class highlight-undo.Windows
+---@field public sync? "none" | "scroll" | "flash" What other windows showing the buffer do when it changes
+
+---@class highlight-undo.Queue
+---@field public coalesce? "none" | "cancel" | "merge" What a new undo/redo does to the earlier ones still waiting
+---@field public maxDepth? integer Pending commands that keep their highlight, with `coalesce` "none" only
+---@field public staleTimeout? integer Commands waiting longer than this (ms) run without highlight
+---@field public overflow? "drop-oldest" | "drop-newest" | "run-without-highlight" Which commands lose their highlight beyond `maxDepth`, with `coalesce` "none" only
+
 ---@class highlight-undo.RangeAdjustments
 ---@field public adjustWordBoundaries? boolean
 ---@field public handleWhitespace? boolean
 
+---@class highlight-undo.Diff
+---@field public algorithm? "myers" | "patience" | "histogram"
+
 ---@class highlight-undo.Heuristics
 ---@field public enabled? boolean
 ---@field public thresholds? highlight-undo.HeuristicsThresholds
 ---@field public strategies? highlight-undo.HeuristicsStrategies
+---@field public granularity? highlight-undo.HeuristicsGranularity
 
 ---@class highlight-undo.HeuristicsThresholds
 ---@field public tiny? number
@@ -47,3 +98,9 @@
 ---@field public small? "character" | "word" | "line" | "block"
 ---@field public medium? "character" | "word" | "line" | "block"
 ---@field public large? "character" | "word" | "line" | "block"
+
+---@class highlight-undo.HeuristicsGranularity
+---@field public tiny? "character" | "word"
+---@field public small? "character" | "word"
+---@field public medium? "character" | "word"
+---@field public large? "character" | "word"
@@ -0,0 +1,11 @@
+// Write the files generated from ConfigSchema: `deno task generate:config`
+import { generatedFiles } from "../denops/highlight-undo/config-codegen.ts";
+
+const root = new URL("../", import.meta.url);
+
+for (const { path, generate } of generatedFiles) {
+  const url = new URL(path, root);
+  await Deno.mkdir(new URL(".", url), { recursive: true });
+  await Deno.writeTextFile(url, generate());
+  console.log(`Generated ${path}`);
+}